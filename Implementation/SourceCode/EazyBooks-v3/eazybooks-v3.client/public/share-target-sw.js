@@ -0,0 +1,66 @@
+/**
+ * Service worker of EazyBooks. It receives receipts shared from other apps
+ * (Web Share Target) and hands all other requests to the Angular service worker.
+ *
+ * Shared files are parked in IndexedDB, so that they survive a sign-in, and the
+ * app is opened. After sign-in, the app opens a transaction draft for each of them
+ * (see SharedDraftService).
+ */
+
+/** Path the manifest posts shared content to, relative to the scope of the app. */
+const SHARE_TARGET_PATH = new URL('share-target', self.registration.scope).pathname;
+
+/** Page of the app that opens the drafts after sign-in. */
+const MAIN_URL = new URL('main', self.registration.scope).href;
+
+/** IndexedDB database and object store of the parked drafts, see SharedDraftService. */
+const SHARED_DRAFTS_DB = 'eazybooks-shared-drafts';
+const SHARED_DRAFTS_STORE = 'drafts';
+
+self.addEventListener('fetch', event => {
+  const url = new URL(event.request.url);
+  if (event.request.method === 'POST' && url.pathname === SHARE_TARGET_PATH) {
+    event.respondWith(parkSharedDraft(event.request));
+  }
+});
+
+/**
+ * Stores the shared files and text as draft and redirects to the app.
+ */
+async function parkSharedDraft(request) {
+  try {
+    const formData = await request.formData();
+    await saveDraft({
+      title: formData.get('title') || '',
+      text: formData.get('text') || '',
+      url: formData.get('url') || '',
+      files: formData.getAll('receipts').filter(file => file instanceof File),
+      receivedAtInMillis: Date.now()
+    });
+  } catch (error) {
+    console.error('Error storing shared receipt:', error);
+  }
+  return Response.redirect(MAIN_URL, 303);
+}
+
+/**
+ * Adds a draft to the IndexedDB object store.
+ */
+function saveDraft(draft) {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(SHARED_DRAFTS_DB, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(SHARED_DRAFTS_STORE, { keyPath: 'id', autoIncrement: true });
+    open.onerror = () => reject(open.error);
+    open.onsuccess = () => {
+      const transaction = open.result.transaction(SHARED_DRAFTS_STORE, 'readwrite');
+      transaction.objectStore(SHARED_DRAFTS_STORE).add(draft);
+      transaction.oncomplete = () => {
+        open.result.close();
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    };
+  });
+}
+
+importScripts('./ngsw-worker.js');
@@ -2,6 +2,16 @@ import { Component, OnInit } from '@angular/core';
 import { Router } from '@angular/router';
 import { AuthService } from './services/auth-service.service';
 import { SettingsService } from './services/settings.service';
+import { TrashService } from './services/trash.service';
+import { StandingOrderService } from './services/standing-order.service';
+import { ReceiptStorageService } from './services/receipt-storage.service';
+import { SharedDraftService } from './services/shared-draft.service';
+import { SharedDraft } from './shared-draft.model';
+import { TransactionEntry } from './transaction-entry.model';
+import { TransactionDialogComponent } from './transaction-dialog/transaction-dialog.component';
+import { MatDialog } from '@angular/material/dialog';
+import { EMPTY, Observable, from } from 'rxjs';
+import { concatMap, switchMap } from 'rxjs/operators';
 import { TranslateService } from '@ngx-translate/core';
 
 import * as crypto from 'crypto-js';
@@ -24,6 +34,9 @@ export class AppComponent implements OnInit {
   /** Flag to track user login status */
   isLoggedIn = false;
 
+  /** Flag to prevent opening the shared receipts twice */
+  private openingSharedDrafts = false;
+
   /**
    * Safe HTML content to display in the application.
    */
@@ -37,13 +50,23 @@ export class AppComponent implements OnInit {
    * @param settingsService - The service to manage user settings.
    * @param translate - The translation service for language management.
    * @param sanitizer - The Angular sanitizer service to sanitize HTML content.
+   * @param trashService - The service to purge expired records from the recycle bin.
+   * @param standingOrderService - The service to book the due transactions of standing orders.
+   * @param receiptStorageService - The service to move inline receipts to Firebase Storage.
+   * @param sharedDraftService - The service to read receipts shared from other apps.
+   * @param dialog - The dialog service to open transaction drafts for shared receipts.
    */
   constructor(
     private router: Router,
     private authService: AuthService,
     private settingsService: SettingsService,
     private translate: TranslateService,
-    private sanitizer: DomSanitizer
+    private sanitizer: DomSanitizer,
+    private trashService: TrashService,
+    private standingOrderService: StandingOrderService,
+    private receiptStorageService: ReceiptStorageService,
+    private sharedDraftService: SharedDraftService,
+    private dialog: MatDialog
   ) { }
 
   /** Default section to display */
@@ -74,8 +97,14 @@ export class AppComponent implements OnInit {
       this.isLoggedIn = isLoggedIn;
       if (isLoggedIn) {
         console.log("isLoggedIn");
-        this.router.navigate(['/main']);
+        // Keep the section and filters of a bookmarked main site URL
+        const bookmark = window.location.pathname === '/main' ? window.location.search : '';
+        this.router.navigateByUrl('/main' + bookmark);
         this.loadPreferences(); // Load user preferences if logged in
+        this.purgeExpiredTrash(); // Remove records whose retention period in the recycle bin is over
+        this.migrateInlineReceipts(); // Move receipts stored as base64 in Firestore to Firebase Storage
+        this.executeStandingOrders(); // Book the due transactions of standing orders, including missed ones
+        this.openSharedDrafts(); // Open drafts for receipts shared from other apps, parked until sign-in
       } else {
         this.router.navigate(['/signin']);
       }
@@ -84,6 +113,73 @@ export class AppComponent implements OnInit {
     });
   }
 
+  /**
+   * Deletes the records in the recycle bin whose retention period is over.
+   */
+  purgeExpiredTrash() {
+    this.trashService.purgeExpired().subscribe({
+      error: error => console.error('Error purging recycle bin:', error)
+    });
+  }
+
+  /**
+   * Moves receipts stored as base64 data URLs to Firebase Storage.
+   */
+  migrateInlineReceipts() {
+    this.receiptStorageService.migrateInlineReceipts().subscribe({
+      error: error => console.error('Error migrating receipts:', error)
+    });
+  }
+
+  /**
+   * Books the due transactions of the standing orders.
+   */
+  executeStandingOrders() {
+    this.standingOrderService.executeDue().subscribe({
+      error: error => console.error('Error executing standing orders:', error)
+    });
+  }
+
+  /**
+   * Opens a transaction draft for every receipt shared from another app,
+   * one after the other. A draft is removed once its transaction is saved,
+   * a cancelled draft is offered again after the next sign-in.
+   */
+  openSharedDrafts() {
+    if (this.openingSharedDrafts) {
+      return; // The drafts are already being opened
+    }
+    this.openingSharedDrafts = true;
+    this.sharedDraftService.getDrafts().pipe(
+      switchMap(drafts => from(drafts)),
+      concatMap(draft => this.openSharedDraft(draft).pipe(
+        switchMap(saved => saved ? this.sharedDraftService.deleteDraft(draft.id!) : EMPTY)
+      ))
+    ).subscribe({
+      complete: () => this.openingSharedDrafts = false,
+      error: error => {
+        console.error('Error opening shared receipts:', error);
+        this.openingSharedDrafts = false;
+      }
+    });
+  }
+
+  /**
+   * Opens the transaction dialog prefilled with the shared text and the shared files attached.
+   *
+   * @param draft - The shared content.
+   * @returns An observable that emits the saved transaction, or undefined if the dialog was cancelled.
+   */
+  private openSharedDraft(draft: SharedDraft): Observable<TransactionEntry | undefined> {
+    const description = draft.title || draft.text || '';
+    const dialogRef = this.dialog.open(TransactionDialogComponent, {
+      width: '500px',
+      data: new TransactionEntry('', '', 0, 0, description, '', '', Date.now())
+    });
+    dialogRef.componentInstance.addFiles(draft.files);
+    return dialogRef.afterClosed();
+  }
+
   /** 
    * Sanitize user input to prevent XSS attacks and display it in the application.
    * 
@@ -9,7 +9,7 @@ import { environment } from '../environments/environment';
 import { AngularFireModule } from '@angular/fire/compat';
 import { AngularFireDatabaseModule } from '@angular/fire/compat/database';
 import { AngularFirestoreModule } from '@angular/fire/compat/firestore';
-import { AngularFireStorageModule } from '@angular/fire/compat/storage';
+import { AngularFireStorageModule, USE_EMULATOR as USE_STORAGE_EMULATOR } from '@angular/fire/compat/storage';
 import { provideFirebaseApp, initializeApp } from '@angular/fire/app';
 import { provideAuth, getAuth } from '@angular/fire/auth';
 import { AngularFireAuthModule } from '@angular/fire/compat/auth';
@@ -62,6 +62,14 @@ import localeDe from '@angular/common/locales/de';
 import { ServiceWorkerModule } from '@angular/service-worker';
 import { ForgotPasswordComponent } from './forgot-password/forgot-password.component';
 import { StandingDialogComponent } from './standing-dialog/standing-dialog.component';
+import { ImportDialogComponent } from './import-dialog/import-dialog.component';
+import { TransactionFilterComponent } from './transaction-filter/transaction-filter.component';
+import { TrashComponent } from './trash/trash.component';
+import { PeriodCloseComponent } from './period-close/period-close.component';
+import { StandingOrdersComponent } from './standing-orders/standing-orders.component';
+import { AttachmentViewerComponent } from './attachment-viewer/attachment-viewer.component';
+import { CameraCaptureComponent } from './camera-capture/camera-capture.component';
+import { CategorizationRulesComponent } from './categorization-rules/categorization-rules.component';
 
 registerLocaleData(localeDe);
 
@@ -85,7 +93,15 @@ export function HttpLoaderFactory(http: HttpClient) {
     BudgetDialogComponent,
     CategoriesComponent,
     ForgotPasswordComponent,
-    StandingDialogComponent
+    StandingDialogComponent,
+    ImportDialogComponent,
+    TransactionFilterComponent,
+    TrashComponent,
+    PeriodCloseComponent,
+    StandingOrdersComponent,
+    AttachmentViewerComponent,
+    CameraCaptureComponent,
+    CategorizationRulesComponent
   ],
   imports: [
     BrowserModule,
@@ -123,7 +139,8 @@ export function HttpLoaderFactory(http: HttpClient) {
         deps: [HttpClient]
       }
     }),
-    ServiceWorkerModule.register('ngsw-worker.js', {
+    // share-target-sw.js receives receipts shared from other apps and imports ngsw-worker.js
+    ServiceWorkerModule.register('share-target-sw.js', {
       enabled: !isDevMode(),
       // Register the ServiceWorker as soon as the application is stable
       // or after 30 seconds (whichever comes first).
@@ -135,7 +152,8 @@ export function HttpLoaderFactory(http: HttpClient) {
     provideAnimations(),
     provideFirebaseApp(() => initializeApp(environment.firebaseConfig)),
     provideAuth(() => getAuth()),
-    { provide: LOCALE_ID, useValue: 'de-DE' }
+    { provide: LOCALE_ID, useValue: 'de-DE' },
+    { provide: USE_STORAGE_EMULATOR, useValue: environment.storageEmulator ? [environment.storageEmulator.host, environment.storageEmulator.port] : undefined }
   ],
   bootstrap: [AppComponent]
 })
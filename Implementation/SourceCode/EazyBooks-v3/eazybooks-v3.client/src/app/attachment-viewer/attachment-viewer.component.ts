@@ -0,0 +1,136 @@
+import { Component, Inject, OnInit } from '@angular/core';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
+import { saveAs } from 'file-saver';
+import { TransactionEntry } from '../transaction-entry.model';
+import { Receipt } from '../receipt.model';
+import { ReceiptStorageService, ATTACHMENT_KINDS } from '../services/receipt-storage.service';
+import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
+
+/**
+ * AttachmentViewerComponent shows the attachments of a transaction inside the app.
+ * Images and PDFs are previewed, every attachment can be downloaded or replaced.
+ * Opened from the list of transactions, a replaced attachment is saved right away;
+ * opened from the transaction dialog, it is saved together with the transaction.
+ */
+@Component({
+  selector: 'app-attachment-viewer',
+  templateUrl: './attachment-viewer.component.html',
+  styleUrls: ['./attachment-viewer.component.css']
+})
+export class AttachmentViewerComponent implements OnInit {
+
+  selectedIndex = 0; // Index of the shown attachment
+  url: string = ''; // Download URL of the shown attachment
+  safeUrl: SafeResourceUrl | null = null; // Download URL trusted for the preview
+  uploading = false; // True while a replacement is uploaded
+  attachmentKinds = ATTACHMENT_KINDS; // Kinds of attachments with their translation keys
+
+  constructor(
+    public dialogRef: MatDialogRef<AttachmentViewerComponent>, // Reference to the dialog
+    @Inject(MAT_DIALOG_DATA) public data: { transaction: TransactionEntry, index?: number, persist?: boolean }, // Transaction whose attachments are shown
+    private receiptStorageService: ReceiptStorageService, // Service for storing receipts
+    private transactionService: TransactionServiceComponent, // Service for saving replaced attachments
+    private sanitizer: DomSanitizer // Sanitizer for the preview URL
+  ) { }
+
+  ngOnInit(): void {
+    this.select(this.data.index || 0);
+  }
+
+  /**
+   * Returns the attachments of the transaction.
+   */
+  get attachments(): Receipt[] {
+    return this.data.transaction.attachments || [];
+  }
+
+  /**
+   * Returns the shown attachment.
+   */
+  get selected(): Receipt | undefined {
+    return this.attachments[this.selectedIndex];
+  }
+
+  /**
+   * Returns the translation key of the kind of an attachment.
+   * @param attachment - The attachment
+   */
+  getKindLabel(attachment: Receipt): string {
+    return ATTACHMENT_KINDS.find(kind => kind.value === attachment.kind)?.label || 'ATTACHMENT_OTHER';
+  }
+
+  /**
+   * Shows an attachment.
+   * @param index - The index of the attachment
+   */
+  select(index: number): void {
+    this.selectedIndex = index;
+    this.url = '';
+    this.safeUrl = null;
+    if (!this.selected) {
+      return;
+    }
+
+    this.receiptStorageService.getDownloadUrl(this.selected).subscribe({
+      next: url => {
+        this.url = url;
+        this.safeUrl = this.sanitizer.bypassSecurityTrustResourceUrl(url);
+      },
+      error: (err) => console.error('Error loading attachment:', err)
+    });
+  }
+
+  /**
+   * Downloads the shown attachment under its original file name.
+   * The file is fetched from the bucket, which allows this via cors.json.
+   */
+  download(): void {
+    const attachment = this.selected;
+    if (!attachment || !this.url) {
+      return;
+    }
+
+    fetch(this.url)
+      .then(response => response.blob())
+      .then(blob => saveAs(blob, attachment.fileName))
+      .catch(err => console.error('Error downloading attachment:', err));
+  }
+
+  /**
+   * Replaces the shown attachment by the selected file, keeping its kind.
+   * @param event - The file input change event
+   */
+  replace(event: any): void {
+    const file = event.target.files[0]; // Get the first selected file
+    const index = this.selectedIndex;
+    if (!file || !this.selected) {
+      return;
+    }
+
+    this.uploading = true;
+    this.receiptStorageService.upload(file, file.name, this.selected.kind).subscribe({
+      next: receipt => {
+        this.data.transaction.attachments = this.attachments.map((attachment, i) => i === index ? receipt : attachment);
+        this.uploading = false;
+        this.select(index);
+        if (this.data.persist) {
+          this.transactionService.updateTransaction(this.data.transaction).subscribe({
+            error: (err) => console.error('Error saving replaced attachment:', err)
+          });
+        }
+      },
+      error: (err) => {
+        console.error('Error uploading attachment:', err);
+        this.uploading = false;
+      }
+    });
+  }
+
+  /**
+   * Closes the viewer.
+   */
+  closeDialog(): void {
+    this.dialogRef.close();
+  }
+}
@@ -73,4 +73,14 @@ export interface BudgetEntry {
    * This ensures that budgets are only visible to the user who created them.
    */
   userId?: string;
+
+  /**
+   * Optional: True if the budget entry was moved to the recycle bin.
+   */
+  deleted?: boolean;
+
+  /**
+   * Optional: When the budget entry was moved to the recycle bin, in milliseconds since epoch.
+   */
+  deletedAtInMillis?: number;
 }
@@ -0,0 +1,222 @@
+import { AfterViewInit, Component, ElementRef, OnDestroy, ViewChild } from '@angular/core';
+import { MatDialogRef } from '@angular/material/dialog';
+import { ReceiptImageService, Point } from '../services/receipt-image.service';
+
+/**
+ * CameraCaptureComponent photographs receipts with the camera of the device.
+ * The outline of the receipt is detected and can be adjusted by dragging its
+ * corners; the page is then straightened, converted to grayscale and compressed.
+ * The dialog closes with a JPEG for a single page or a PDF for several pages.
+ */
+@Component({
+  selector: 'app-camera-capture',
+  templateUrl: './camera-capture.component.html',
+  styleUrls: ['./camera-capture.component.css']
+})
+export class CameraCaptureComponent implements AfterViewInit, OnDestroy {
+
+  @ViewChild('video') video?: ElementRef<HTMLVideoElement>; // Live camera preview
+  cameraAvailable = true; // False if the camera cannot be used; a photo can then be chosen instead
+  photo: HTMLCanvasElement | null = null; // Captured photo whose outline is being adjusted
+  photoUrl = ''; // Data URL of the captured photo for display
+  corners: Point[] = []; // Corners of the receipt on the photo
+  pages: { blob: Blob, url: string }[] = []; // Corrected and compressed pages
+  processing = false; // True while a page is being corrected or the result is being created
+  private stream?: MediaStream; // Camera stream, stopped when the dialog closes
+  private draggedCorner = -1; // Index of the corner being dragged
+
+  constructor(
+    public dialogRef: MatDialogRef<CameraCaptureComponent>, // Reference to the dialog
+    private receiptImageService: ReceiptImageService // Service for processing receipt photos
+  ) { }
+
+  ngAfterViewInit(): void {
+    this.startCamera();
+  }
+
+  ngOnDestroy(): void {
+    // Release the camera and the page previews
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.pages.forEach(page => URL.revokeObjectURL(page.url));
+  }
+
+  /**
+   * Returns the corners as SVG polygon points.
+   */
+  get outline(): string {
+    return this.corners.map(corner => `${corner.x},${corner.y}`).join(' ');
+  }
+
+  /**
+   * Starts the rear camera. Without camera access, a photo can be chosen instead.
+   */
+  startCamera(): void {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      this.cameraAvailable = false;
+      return;
+    }
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1920 } }, audio: false })
+      .then(stream => {
+        this.stream = stream;
+        if (this.video) {
+          this.video.nativeElement.srcObject = stream;
+          this.video.nativeElement.play();
+        }
+      })
+      .catch(err => {
+        console.error('Error starting camera:', err);
+        this.cameraAvailable = false;
+      });
+  }
+
+  /**
+   * Takes a photo from the live camera preview.
+   */
+  capture(): void {
+    const video = this.video?.nativeElement;
+    if (!video || !video.videoWidth) {
+      return;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+    this.setPhoto(canvas);
+  }
+
+  /**
+   * Uses a photo chosen from the device instead of the live camera.
+   * @param event - The file input change event
+   */
+  onFileSelected(event: any): void {
+    const file = event.target.files[0]; // Get the first selected file
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    createImageBitmap(file).then(bitmap => {
+      const canvas = document.createElement('canvas');
+      canvas.width = bitmap.width;
+      canvas.height = bitmap.height;
+      canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      this.setPhoto(canvas);
+    }).catch(err => console.error('Error loading photo:', err));
+  }
+
+  /**
+   * Discards the captured photo.
+   */
+  retake(): void {
+    this.photo = null;
+    this.photoUrl = '';
+    this.corners = [];
+  }
+
+  /**
+   * Starts dragging a corner of the outline.
+   * @param event - The pointer event
+   * @param index - The index of the corner
+   */
+  startDrag(event: PointerEvent, index: number): void {
+    this.draggedCorner = index;
+    (event.target as Element).setPointerCapture(event.pointerId);
+  }
+
+  /**
+   * Moves the dragged corner to the pointer position.
+   * @param event - The pointer event
+   */
+  drag(event: PointerEvent): void {
+    if (this.draggedCorner < 0 || !this.photo) {
+      return;
+    }
+
+    const bounds = (event.currentTarget as Element).getBoundingClientRect();
+    const x = (event.clientX - bounds.left) / bounds.width * this.photo.width;
+    const y = (event.clientY - bounds.top) / bounds.height * this.photo.height;
+    this.corners[this.draggedCorner] = {
+      x: Math.min(this.photo.width, Math.max(0, x)),
+      y: Math.min(this.photo.height, Math.max(0, y))
+    };
+  }
+
+  /**
+   * Stops dragging a corner.
+   */
+  endDrag(): void {
+    this.draggedCorner = -1;
+  }
+
+  /**
+   * Straightens, converts and compresses the captured photo and adds it as a page.
+   */
+  usePage(): void {
+    if (!this.photo) {
+      return;
+    }
+
+    this.processing = true;
+    const corrected = this.receiptImageService.correct(this.photo, this.corners);
+    this.receiptImageService.compress(corrected).subscribe({
+      next: blob => {
+        this.pages.push({ blob, url: URL.createObjectURL(blob) });
+        this.processing = false;
+        this.retake();
+      },
+      error: (err) => {
+        console.error('Error compressing page:', err);
+        this.processing = false;
+      }
+    });
+  }
+
+  /**
+   * Removes a page.
+   * @param index - The index of the page
+   */
+  removePage(index: number): void {
+    URL.revokeObjectURL(this.pages[index].url);
+    this.pages.splice(index, 1);
+  }
+
+  /**
+   * Closes the dialog with the captured receipt: a JPEG for a single page,
+   * a PDF combining all pages otherwise.
+   */
+  finish(): void {
+    const name = `receipt-${new Date().toISOString().substring(0, 19).replace(/[-:T]/g, '')}`;
+    if (this.pages.length === 1) {
+      this.dialogRef.close(new File([this.pages[0].blob], `${name}.jpg`, { type: 'image/jpeg' }));
+      return;
+    }
+
+    this.processing = true;
+    this.receiptImageService.combineToPdf(this.pages.map(page => page.blob)).subscribe({
+      next: pdf => this.dialogRef.close(new File([pdf], `${name}.pdf`, { type: 'application/pdf' })),
+      error: (err) => {
+        console.error('Error creating PDF:', err);
+        this.processing = false;
+      }
+    });
+  }
+
+  /**
+   * Closes the dialog without a receipt.
+   */
+  closeDialog(): void {
+    this.dialogRef.close();
+  }
+
+  /**
+   * Shows a photo with the detected outline of the receipt.
+   */
+  private setPhoto(canvas: HTMLCanvasElement): void {
+    this.photo = canvas;
+    this.photoUrl = canvas.toDataURL('image/jpeg', 0.9);
+    this.corners = this.receiptImageService.detectCorners(canvas);
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Represents a user-defined rule that categorizes transactions automatically
+ * on entry and import. A rule matches when all of its conditions are met;
+ * of several matching rules, the one with the lowest priority number wins.
+ */
+export interface CategorizationRule {
+  /**
+   * Optional: A unique ID for the rule.
+   */
+  id?: string;
+
+  /**
+   * Display name of the rule.
+   */
+  name: string;
+
+  /**
+   * Order in which the rules are checked, lowest first.
+   */
+  priority: number;
+
+  /**
+   * Whether the rule is applied. Inactive rules can still be tested.
+   */
+  active: boolean;
+
+  /**
+   * Condition: The description contains this text (case-insensitive).
+   */
+  descriptionContains?: string;
+
+  /**
+   * Condition: The gross amount is at least this value.
+   */
+  minAmount?: number;
+
+  /**
+   * Condition: The gross amount is at most this value.
+   */
+  maxAmount?: number;
+
+  /**
+   * Condition: The IBAN of the counterparty (spaces are ignored).
+   */
+  counterpartyIban?: string;
+
+  /**
+   * Action: The category assigned to matching transactions.
+   */
+  category?: string;
+
+  /**
+   * Action: The VAT rate in percent assigned to matching transactions.
+   */
+  vatRate?: number;
+
+  /**
+   * Action: The type ("income" or "expense") assigned to matching transactions.
+   */
+  incomeExpenses?: string;
+
+  /**
+   * Optional: The ID of the user who owns the rule.
+   */
+  userId?: string;
+}
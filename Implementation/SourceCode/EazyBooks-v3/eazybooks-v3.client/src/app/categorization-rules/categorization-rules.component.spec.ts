@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { CategorizationRulesComponent } from './categorization-rules.component';
+
+describe('CategorizationRulesComponent', () => {
+  let component: CategorizationRulesComponent;
+  let fixture: ComponentFixture<CategorizationRulesComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      declarations: [CategorizationRulesComponent]
+    })
+    .compileComponents();
+    
+    fixture = TestBed.createComponent(CategorizationRulesComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
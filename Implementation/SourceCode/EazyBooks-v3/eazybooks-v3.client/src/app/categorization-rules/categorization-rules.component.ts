@@ -0,0 +1,247 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { TranslateService } from '@ngx-translate/core';
+import { CategorizationRule } from '../categorization-rule.model';
+import { TransactionEntry } from '../transaction-entry.model';
+import { CategorizationRuleService } from '../services/categorization-rule.service';
+import { CategoriesService } from '../services/categories.service';
+import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
+import { VAT_RATES } from '../services/vat.service';
+
+/**
+ * CategorizationRulesComponent manages the rules that categorize transactions
+ * automatically. Rules can be added, edited, reordered by priority and
+ * switched off; before saving, a rule can be tested against the booking
+ * history, and it can be applied to the stored transactions retroactively.
+ */
+@Component({
+  selector: 'app-categorization-rules',
+  templateUrl: './categorization-rules.component.html',
+  styleUrls: ['./categorization-rules.component.css']
+})
+export class CategorizationRulesComponent implements OnInit, OnDestroy {
+
+  rules: CategorizationRule[] = []; // Rules of the user, ordered by priority
+  categories: any[] = []; // Categories a rule can assign
+  vatRates = VAT_RATES; // VAT rates a rule can assign
+  transactions: TransactionEntry[] = []; // Stored transactions the rules are tested against
+  editedRule: CategorizationRule | null = null; // Rule shown in the form
+  testedRule: CategorizationRule | null = null; // Rule whose test result is shown
+  testResult: TransactionEntry[] = []; // Transactions the tested rule would change
+  applying = false; // True while a rule is applied retroactively
+  message = ''; // Result of the last retroactive application
+  private subscription: Subscription = new Subscription(); // Subscription to handle multiple observables
+
+  constructor(
+    private ruleService: CategorizationRuleService, // Service for categorization rules
+    private categoriesService: CategoriesService, // Service for the categories
+    private transactionService: TransactionServiceComponent, // Service for the stored transactions
+    private translate: TranslateService // Translate service for internationalization
+  ) { }
+
+  ngOnInit(): void {
+    this.subscription.add(this.ruleService.getRules().subscribe(rules => {
+      this.rules = rules;
+    }));
+    this.subscription.add(this.categoriesService.getCategories().subscribe((categories: any[]) => {
+      this.categories = categories;
+    }));
+    this.subscription.add(this.transactionService.getTransactions().subscribe(transactions => {
+      this.transactions = transactions;
+      if (this.testedRule) {
+        this.testRule(this.testedRule); // Keep the preview up to date
+      }
+    }));
+  }
+
+  ngOnDestroy(): void {
+    // Unsubscribe from all subscriptions to avoid memory leaks
+    this.subscription.unsubscribe();
+  }
+
+  /**
+   * Returns a short description of the conditions of a rule.
+   * @param rule - The rule
+   */
+  describeConditions(rule: CategorizationRule): string {
+    const conditions: string[] = [];
+    if (rule.descriptionContains) {
+      conditions.push(this.translate.instant('RULE_DESCRIPTION_CONTAINS') + ` "${rule.descriptionContains}"`);
+    }
+    if (rule.minAmount != null) {
+      conditions.push(`≥ € ${rule.minAmount}`);
+    }
+    if (rule.maxAmount != null) {
+      conditions.push(`≤ € ${rule.maxAmount}`);
+    }
+    if (rule.counterpartyIban) {
+      conditions.push(`IBAN ${rule.counterpartyIban}`);
+    }
+    return conditions.join(', ');
+  }
+
+  /**
+   * Returns a short description of the actions of a rule.
+   * @param rule - The rule
+   */
+  describeActions(rule: CategorizationRule): string {
+    const actions: string[] = [];
+    if (rule.category) {
+      actions.push(rule.category);
+    }
+    if (rule.vatRate != null) {
+      actions.push(`${rule.vatRate} %`);
+    }
+    if (rule.incomeExpenses) {
+      actions.push(this.translate.instant(rule.incomeExpenses === 'income' ? 'INCOME' : 'EXPENSE'));
+    }
+    return actions.join(', ');
+  }
+
+  /**
+   * Shows the form for a new rule.
+   */
+  addRule(): void {
+    this.editedRule = { name: '', priority: this.rules.length, active: true };
+    this.clearTest();
+  }
+
+  /**
+   * Shows the form for an existing rule.
+   * @param rule - The rule to edit
+   */
+  editRule(rule: CategorizationRule): void {
+    this.editedRule = { ...rule };
+    this.clearTest();
+  }
+
+  /**
+   * Hides the form without saving.
+   */
+  cancelEdit(): void {
+    this.editedRule = null;
+    this.clearTest();
+  }
+
+  /**
+   * Returns whether the edited rule has a name, at least one condition and at least one action.
+   */
+  get canSave(): boolean {
+    const rule = this.editedRule;
+    return !!rule && !!rule.name
+      && (!!rule.descriptionContains || rule.minAmount != null || rule.maxAmount != null || !!rule.counterpartyIban)
+      && (!!rule.category || rule.vatRate != null || !!rule.incomeExpenses);
+  }
+
+  /**
+   * Saves the edited rule.
+   */
+  saveRule(): void {
+    if (!this.editedRule || !this.canSave) {
+      return;
+    }
+
+    this.ruleService.saveRule(this.normalize(this.editedRule)).subscribe({
+      next: () => this.cancelEdit(),
+      error: (err) => console.error('Error saving rule:', err)
+    });
+  }
+
+  /**
+   * Switches a rule on or off.
+   * @param rule - The rule
+   */
+  toggleActive(rule: CategorizationRule): void {
+    this.ruleService.saveRule({ ...rule, active: !rule.active }).subscribe({
+      error: (err) => console.error('Error saving rule:', err)
+    });
+  }
+
+  /**
+   * Moves a rule up or down in the order of priority.
+   * @param index - The index of the rule
+   * @param direction - -1 to check the rule earlier, 1 to check it later
+   */
+  move(index: number, direction: number): void {
+    const target = index + direction;
+    if (target < 0 || target >= this.rules.length) {
+      return;
+    }
+
+    const rules = [...this.rules];
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    this.ruleService.savePriorities(rules).subscribe({
+      error: (err) => console.error('Error saving priorities:', err)
+    });
+  }
+
+  /**
+   * Deletes a rule after user confirmation.
+   * @param rule - The rule to delete
+   */
+  deleteRule(rule: CategorizationRule): void {
+    if (confirm(this.translate.instant('CONFIRM_DELETE_RULE', { name: rule.name }))) {
+      this.ruleService.deleteRule(rule.id!).subscribe({
+        error: (err) => console.error('Error deleting rule:', err)
+      });
+    }
+  }
+
+  /**
+   * Shows the stored transactions a rule would change.
+   * @param rule - The rule to test, also an unsaved one from the form
+   */
+  testRule(rule: CategorizationRule): void {
+    this.testedRule = this.normalize(rule);
+    this.testResult = this.ruleService.testRule(this.testedRule, this.transactions);
+  }
+
+  /**
+   * Hides the test result.
+   */
+  clearTest(): void {
+    this.testedRule = null;
+    this.testResult = [];
+  }
+
+  /**
+   * Applies a saved rule to all stored transactions it matches, after user confirmation.
+   * @param rule - The rule to apply
+   */
+  applyRetroactively(rule: CategorizationRule): void {
+    const count = this.ruleService.testRule(rule, this.transactions).length;
+    if (!count || !confirm(this.translate.instant('CONFIRM_APPLY_RULE', { name: rule.name, count }))) {
+      return;
+    }
+
+    this.applying = true;
+    this.message = '';
+    this.ruleService.applyRetroactively(rule).subscribe({
+      next: changed => {
+        this.applying = false;
+        this.message = this.translate.instant('RULE_APPLIED_COUNT', { count: changed, skipped: count - changed });
+      },
+      error: (err) => {
+        console.error('Error applying rule:', err);
+        this.applying = false;
+      }
+    });
+  }
+
+  /**
+   * Converts empty form fields into missing conditions and actions.
+   */
+  private normalize(rule: CategorizationRule): CategorizationRule {
+    const emptyNumber = (value: any) => value === '' || value == null || isNaN(value) ? undefined : +value;
+    return {
+      ...rule,
+      descriptionContains: rule.descriptionContains?.trim() || undefined,
+      counterpartyIban: rule.counterpartyIban?.trim() || undefined,
+      minAmount: emptyNumber(rule.minAmount),
+      maxAmount: emptyNumber(rule.maxAmount),
+      vatRate: emptyNumber(rule.vatRate),
+      category: rule.category || undefined,
+      incomeExpenses: rule.incomeExpenses || undefined
+    };
+  }
+}
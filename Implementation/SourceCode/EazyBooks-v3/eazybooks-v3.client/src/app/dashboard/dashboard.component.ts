@@ -1,22 +1,30 @@
-import { Component, OnInit, AfterViewInit, ViewChild, ElementRef } from '@angular/core';
+import { Component, OnInit, AfterViewInit, OnDestroy, ViewChild, ElementRef } from '@angular/core';
 import { MatDialog } from '@angular/material/dialog';
 import { TranslateService } from '@ngx-translate/core';
 import { YearDialogComponent } from '../year-dialog/year-dialog.component';
 import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
 import Chart from 'chart.js/auto';
 import firebase from 'firebase/compat/app';
+import { IncomeTaxService, IncomeTaxEstimate } from '../services/income-tax.service';
+import { SmallBusinessService, SmallBusinessStatus } from '../services/small-business.service';
+import { SvsService, SvsEstimate } from '../services/svs.service';
+import { Subscription } from 'rxjs';
+import { switchMap } from 'rxjs/operators';
 
 /**
  * The `DashboardComponent` class is responsible for displaying a dashboard that shows 
  * financial data including total income, expenses, and balance for a selected year.
  * It utilizes Chart.js for visualizing this data in a bar chart format.
+ * The expected income tax is estimated from the profit projected to the end of the year.
+ * Small businesses see their revenue in relation to the limit of the VAT exemption.
+ * The SVS contributions are estimated from the same projection.
  */
 @Component({
   selector: 'app-dashboard',
   templateUrl: './dashboard.component.html',
   styleUrls: ['./dashboard.component.css']
 })
-export class DashboardComponent implements OnInit, AfterViewInit {
+export class DashboardComponent implements OnInit, AfterViewInit, OnDestroy {
 
   /**
    * Total income formatted as a string.
@@ -33,6 +41,31 @@ export class DashboardComponent implements OnInit, AfterViewInit {
    */
   saldo = "0,00";
 
+  /**
+   * Income tax estimated from the year-to-date profit.
+   */
+  taxEstimate?: IncomeTaxEstimate;
+
+  /**
+   * Revenue of the selected year compared against the small-business limit.
+   */
+  smallBusinessStatus?: SmallBusinessStatus;
+
+  /**
+   * Subscription of the small-business status, renewed when the year changes.
+   */
+  private smallBusinessSubscription?: Subscription;
+
+  /**
+   * SVS contributions estimated from the projected profit.
+   */
+  svsEstimate?: SvsEstimate;
+
+  /**
+   * Subscription of the SVS estimate, renewed when the year changes.
+   */
+  private svsSubscription?: Subscription;
+
   /**
    * The year selected for viewing financial data.
    */
@@ -55,10 +88,16 @@ export class DashboardComponent implements OnInit, AfterViewInit {
    * @param dialog - Dialog service for opening dialog components.
    * @param transactionService - Service for managing transaction data.
    * @param translate - Service for handling translations.
+   * @param incomeTaxService - Service for estimating the income tax.
+   * @param smallBusinessService - Service for monitoring the small-business limit.
+   * @param svsService - Service for estimating the SVS contributions.
    */
   constructor(private dialog: MatDialog,
     private transactionService: TransactionServiceComponent,
-    private translate: TranslateService) {
+    private translate: TranslateService,
+    private incomeTaxService: IncomeTaxService,
+    private smallBusinessService: SmallBusinessService,
+    private svsService: SvsService) {
     console.log("dashboard is active");
   }
 
@@ -78,6 +117,15 @@ export class DashboardComponent implements OnInit, AfterViewInit {
     this.generateChart();
   }
 
+  /**
+   * Lifecycle hook that is called when the component is destroyed.
+   * It ends the subscriptions of the small-business status and the SVS estimate.
+   */
+  ngOnDestroy(): void {
+    this.smallBusinessSubscription?.unsubscribe();
+    this.svsSubscription?.unsubscribe();
+  }
+
   /**
    * Updates the dashboard data by fetching total income and expenses
    * for the given year and recalculating the balance.
@@ -95,6 +143,49 @@ export class DashboardComponent implements OnInit, AfterViewInit {
       this.totalExpenses = expenses;
       this.updateSaldo();
     });
+
+    this.svsSubscription?.unsubscribe();
+    this.svsSubscription = this.transactionService.getYearToDateProfit(year).pipe(
+      switchMap((profit: number) => {
+        this.taxEstimate = this.incomeTaxService.estimate(profit, year);
+        return this.svsService.getEstimate(year, this.taxEstimate.profit);
+      })
+    ).subscribe(estimate => {
+      this.svsEstimate = estimate;
+    });
+
+    this.smallBusinessSubscription?.unsubscribe();
+    this.smallBusinessSubscription = this.smallBusinessService.getStatus(year).subscribe(status => {
+      this.smallBusinessStatus = status;
+    });
+  }
+
+  /**
+   * Returns the estimated income tax formatted like the other totals.
+   */
+  get expectedTax(): string {
+    return this.formatAmount(this.taxEstimate?.tax ?? 0);
+  }
+
+  /**
+   * Returns the projected profit of the year formatted like the other totals.
+   */
+  get projectedProfit(): string {
+    return this.formatAmount(this.taxEstimate?.profit ?? 0);
+  }
+
+  /**
+   * Returns the expected SVS contributions of the year formatted like the other totals.
+   */
+  get expectedSvs(): string {
+    return this.formatAmount(this.svsEstimate?.total ?? 0);
+  }
+
+  /**
+   * Returns the expected SVS back-payment or refund formatted like the other totals.
+   */
+  get svsDifference(): string {
+    return this.formatAmount(Math.abs(this.svsEstimate?.difference ?? 0));
   }
 
   /**
@@ -0,0 +1,423 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { MatDialogRef } from '@angular/material/dialog';
+import { Subscription, concat, from } from 'rxjs';
+import { concatMap, map, take } from 'rxjs/operators';
+import { TransactionEntry } from '../transaction-entry.model';
+import { ImportProfile } from '../import-profile.model';
+import { StatementLine } from '../statement-line.model';
+import { ImportService } from '../services/import.service';
+import { StatementParserService } from '../services/statement-parser.service';
+import { CategoriesService } from '../services/categories.service';
+import { DuplicateAction, DuplicateDetectorService } from '../services/duplicate-detector.service';
+import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
+import { CategorizationRuleService } from '../services/categorization-rule.service';
+import { CategorizationRule } from '../categorization-rule.model';
+import { PeriodLockService } from '../services/period-lock.service';
+import { SmallBusinessService } from '../services/small-business.service';
+import { DEFAULT_VAT_RATE, VAT_RATES } from '../services/vat.service';
+
+/**
+ * ImportDialogComponent guides the user through importing a bank statement:
+ * uploading the file, mapping the columns to transaction fields,
+ * previewing the parsed rows and writing them to the database.
+ */
+@Component({
+  selector: 'app-import-dialog',
+  templateUrl: './import-dialog.component.html',
+  styleUrls: ['./import-dialog.component.css']
+})
+export class ImportDialogComponent implements OnInit, OnDestroy {
+
+  step: 'upload' | 'mapping' | 'preview' = 'upload'; // Current step of the wizard
+  fileName: string = ''; // Name of the uploaded file
+  fileContent: string = ''; // Raw content of the uploaded file
+  format: 'camt053' | 'mt940' | 'csv' = 'csv'; // Detected format of the uploaded file
+  lines: StatementLine[] = []; // Statement lines read from the file
+  rows: string[][] = []; // Parsed rows of the CSV file
+  columns: string[] = []; // Column names shown in the mapping selects
+  categories: any[] = []; // List of categories for the imported transactions
+  rules: CategorizationRule[] = []; // Categorization rules applied to the imported transactions
+  profiles: ImportProfile[] = []; // Saved import profiles of the user
+  selectedProfileId: string = ''; // ID of the currently applied profile
+  saveProfile: boolean = true; // Whether the mapping should be saved as profile
+  preview: TransactionEntry[] = []; // Transactions parsed with the current mapping
+  existingTransactions: TransactionEntry[] = []; // Transactions already stored for the user
+  duplicates: { [index: number]: TransactionEntry[] } = {}; // Suspected duplicates per preview row
+  fileDuplicates: { [index: number]: number } = {}; // Earlier preview row each row repeats within the same file
+  decisions: { [index: number]: DuplicateAction } = {}; // How each suspected duplicate is resolved
+  invalidRows: number[] = []; // Numbers of the file rows whose date or amount cannot be read
+  rowErrors: { [index: number]: string } = {}; // Problem of each preview row that cannot be imported
+  lockedPeriods: string[] = []; // Closed months ("YYYY-MM") no row may be booked in
+  vatRateToReview: { [index: number]: boolean } = {}; // Preview rows whose VAT rate was not set by a categorization rule
+  smallBusiness: boolean = false; // Whether the user applies the small-business exemption, which means 0% VAT on incomes
+  vatRates = VAT_RATES; // Selectable VAT rates in percent
+  importing: boolean = false; // True while the import is running
+  writtenCount: number = 0; // Number of rows stored by the import so far
+  errorMessage: string = ''; // Error shown to the user
+  errorParams: { [key: string]: number } = {}; // Values shown in the error message
+  private subscription: Subscription = new Subscription(); // Subscription to handle multiple observables
+
+  dateFormats = ['DD.MM.YYYY', 'YYYY-MM-DD', 'MM/DD/YYYY'];
+
+  profile: ImportProfile = this.createDefaultProfile(); // Mapping currently being edited
+
+  constructor(
+    public dialogRef: MatDialogRef<ImportDialogComponent>, // Reference to the dialog
+    private importService: ImportService, // Service for parsing and importing statements
+    private statementParser: StatementParserService, // Parser for CAMT.053 and MT940 statements
+    private categoriesService: CategoriesService, // Service for category operations
+    private duplicateDetector: DuplicateDetectorService, // Service for finding duplicate bookings
+    private transactionService: TransactionServiceComponent, // Service for transaction operations
+    private ruleService: CategorizationRuleService, // Service for categorization rules
+    private periodLockService: PeriodLockService, // Service for closed periods
+    private smallBusinessService: SmallBusinessService // Service for the small-business exemption
+  ) { }
+
+  ngOnInit(): void {
+    this.subscription.add(this.categoriesService.getCategories().subscribe((categories: any[]) => {
+      this.categories = categories; // Assign loaded categories to the component's categories property
+    }));
+    this.subscription.add(this.importService.getProfiles().subscribe((profiles: ImportProfile[]) => {
+      this.profiles = profiles;
+    }));
+    this.subscription.add(this.transactionService.getTransactions().subscribe((transactions: TransactionEntry[]) => {
+      this.existingTransactions = transactions;
+      this.detectDuplicates();
+    }));
+    this.subscription.add(this.ruleService.getRules().subscribe((rules: CategorizationRule[]) => {
+      this.rules = rules;
+      if (this.lines.length) {
+        this.updateTransactions();
+      }
+    }));
+    this.subscription.add(this.periodLockService.getLockedPeriods().subscribe((lockedPeriods: string[]) => {
+      this.lockedPeriods = lockedPeriods;
+      this.validate();
+    }));
+    this.subscription.add(this.smallBusinessService.getStatus(new Date().getFullYear()).pipe(take(1)).subscribe(status => {
+      this.smallBusiness = status.enabled;
+      if (!this.selectedProfileId) {
+        this.profile.incomeVatRate = this.defaultIncomeVatRate; // Saved profiles keep the rate chosen by the user
+        this.updateTransactions();
+      }
+    }));
+  }
+
+  ngOnDestroy(): void {
+    // Unsubscribe from all subscriptions to avoid memory leaks
+    this.subscription.unsubscribe();
+  }
+
+  /**
+   * Reads the selected statement file. CAMT.053 and MT940 statements are shown
+   * in the preview right away, for CSV files a matching saved profile is applied
+   * or the column mapping is requested.
+   * @param event - The file input change event
+   */
+  onFileChange(event: any): void {
+    const file: File = event.target.files[0];
+    if (!file) {
+      return;
+    }
+
+    this.fileName = file.name;
+    this.errorMessage = '';
+    const reader = new FileReader();
+    reader.onload = (e: any) => {
+      const text: string = e.target.result;
+      this.fileContent = text;
+      this.format = this.statementParser.detectFormat(file.name, text);
+
+      if (this.format !== 'csv') {
+        this.readStatement(text);
+        return;
+      }
+
+      const delimiter = this.importService.detectDelimiter(text);
+      this.rows = this.importService.parseCsv(text, delimiter);
+
+      if (this.rows.length === 0) {
+        this.errorMessage = 'IMPORT_EMPTY_FILE';
+        return;
+      }
+
+      const headerSignature = this.rows[0].join(delimiter);
+      const matchingProfile = this.profiles.find(p => p.headerSignature === headerSignature);
+      if (matchingProfile) {
+        this.applyProfile(matchingProfile);
+        this.updatePreview();
+        this.step = 'preview'; // A known bank export needs no setup
+      } else {
+        this.profile = { ...this.createDefaultProfile(), delimiter, headerSignature, name: file.name };
+        this.selectedProfileId = '';
+        this.updateColumns();
+        this.step = 'mapping';
+      }
+    };
+    reader.readAsText(file);
+  }
+
+  /**
+   * Parses a CAMT.053 or MT940 statement and shows its bookings in the preview.
+   * @param text - The content of the statement file
+   */
+  private readStatement(text: string): void {
+    try {
+      this.lines = this.format === 'camt053'
+        ? this.statementParser.parseCamt053(text)
+        : this.statementParser.parseMt940(text);
+    } catch (error) {
+      console.error('Error parsing statement:', error);
+      this.lines = [];
+    }
+    this.invalidRows = [];
+
+    if (this.lines.length === 0) {
+      this.errorMessage = 'IMPORT_EMPTY_FILE';
+      this.step = 'upload';
+      return;
+    }
+
+    this.saveProfile = false;
+    this.updateTransactions();
+    this.step = 'preview';
+  }
+
+  /**
+   * Applies a saved profile to the current file.
+   * @param profile - The profile to apply
+   */
+  applyProfile(profile: ImportProfile): void {
+    this.profile = {
+      ...profile,
+      incomeVatRate: profile.incomeVatRate ?? this.defaultIncomeVatRate,
+      expenseVatRate: profile.expenseVatRate ?? DEFAULT_VAT_RATE
+    };
+    this.selectedProfileId = profile.id || '';
+    this.saveProfile = false;
+    this.rows = this.importService.parseCsv(this.fileContent, profile.delimiter);
+    this.updateColumns();
+  }
+
+  /**
+   * Applies the profile chosen in the profile select.
+   */
+  onProfileSelected(): void {
+    const profile = this.profiles.find(p => p.id === this.selectedProfileId);
+    if (profile) {
+      this.applyProfile(profile);
+    }
+  }
+
+  /**
+   * Parses the file again after the delimiter was changed.
+   */
+  onDelimiterChange(): void {
+    this.rows = this.importService.parseCsv(this.fileContent, this.profile.delimiter);
+    this.profile.headerSignature = this.rows.length ? this.rows[0].join(this.profile.delimiter) : '';
+    this.updateColumns();
+  }
+
+  /**
+   * Updates the column names from the header row or with generic names.
+   */
+  updateColumns(): void {
+    const columnCount = Math.max(0, ...this.rows.slice(0, 5).map(row => row.length));
+    this.columns = Array.from({ length: columnCount }, (_, i) =>
+      this.profile.hasHeader && this.rows[0][i] ? this.rows[0][i] : `#${i + 1}`
+    );
+  }
+
+  /**
+   * Parses the rows with the current mapping for the preview.
+   */
+  updatePreview(): void {
+    this.lines = this.importService.mapRows(this.rows, this.profile);
+    this.invalidRows = this.importService.findInvalidRows(this.rows, this.profile);
+    this.updateTransactions();
+  }
+
+  /**
+   * Converts the statement lines into the transactions shown in the preview.
+   * Lines matching a categorization rule get the category, VAT rate and type of the rule,
+   * all others the VAT rate chosen for their type, which the user should review.
+   */
+  updateTransactions(): void {
+    const vatRates = { income: this.profile.incomeVatRate, expense: this.profile.expenseVatRate };
+    this.preview = this.ruleService.categorize(this.rules, this.importService.toTransactions(this.lines, this.profile.category, vatRates));
+    this.vatRateToReview = {};
+    this.preview.forEach((transaction, index) => {
+      if (this.ruleService.findRule(this.rules, transaction)?.vatRate == null) {
+        this.vatRateToReview[index] = true;
+      }
+    });
+    this.detectDuplicates();
+  }
+
+  /**
+   * Returns the VAT rate of incomes for a new profile: none for small businesses, the standard rate otherwise.
+   */
+  get defaultIncomeVatRate(): number {
+    return this.smallBusiness ? 0 : DEFAULT_VAT_RATE;
+  }
+
+  /**
+   * Looks for suspected duplicates of the previewed rows among the stored transactions
+   * and among the earlier rows of the same file.
+   * Suspected duplicates are skipped unless the user decides otherwise.
+   */
+  detectDuplicates(): void {
+    const duplicates: { [index: number]: TransactionEntry[] } = {};
+    const fileDuplicates: { [index: number]: number } = {};
+    const decisions: { [index: number]: DuplicateAction } = {};
+
+    this.preview.forEach((transaction, index) => {
+      const matches = this.duplicateDetector.findDuplicates(transaction, this.existingTransactions);
+      const fileMatches = this.duplicateDetector.findDuplicates(transaction, this.preview.slice(0, index));
+      if (matches.length) {
+        duplicates[index] = matches;
+        decisions[index] = this.decisions[index] || 'skip';
+      } else if (fileMatches.length) {
+        fileDuplicates[index] = this.preview.indexOf(fileMatches[0]);
+        decisions[index] = this.decisions[index] === 'keep' ? 'keep' : 'skip'; // Nothing stored to merge into
+      }
+    });
+
+    this.duplicates = duplicates;
+    this.fileDuplicates = fileDuplicates;
+    this.decisions = decisions;
+    this.validate();
+  }
+
+  /**
+   * Checks all rows that will be written, so that nothing is imported while one of them is invalid.
+   */
+  validate(): void {
+    const errors = this.importService.validateTransactions(this.preview, this.lockedPeriods);
+    Object.keys(errors)
+      .map(Number)
+      .filter(index => this.decisions[index] === 'skip')
+      .forEach(index => delete errors[index]);
+    this.rowErrors = errors;
+  }
+
+  /**
+   * Returns whether the file contains rows that cannot be imported.
+   */
+  get hasErrors(): boolean {
+    return this.invalidRows.length > 0 || Object.keys(this.rowErrors).length > 0;
+  }
+
+  /**
+   * Returns the number of previewed rows that are suspected duplicates.
+   */
+  get duplicateCount(): number {
+    return Object.keys(this.duplicates).length + Object.keys(this.fileDuplicates).length;
+  }
+
+  /**
+   * Returns the number of rows that will be added or merged.
+   */
+  get importCount(): number {
+    return this.preview.filter((_, index) => this.decisions[index] !== 'skip').length;
+  }
+
+  /**
+   * Goes from the mapping step to the preview step.
+   */
+  showPreview(): void {
+    this.updatePreview();
+    this.step = 'preview';
+  }
+
+  /**
+   * Returns to the mapping step.
+   */
+  editMapping(): void {
+    this.updateColumns();
+    this.step = 'mapping';
+  }
+
+  /**
+   * Saves the mapping profile if requested and imports the previewed transactions.
+   * If the import fails midway, the rows already stored are reported and skipped
+   * when the import is started again.
+   */
+  importTransactions(): void {
+    if (this.importCount === 0 || this.importing) {
+      return;
+    }
+
+    this.validate(); // Nothing is written unless every row can be imported
+    if (this.hasErrors) {
+      this.errorMessage = 'IMPORT_INVALID_ROWS';
+      return;
+    }
+
+    if (this.saveProfile && this.profile.name) {
+      this.importService.saveProfile(this.profile).subscribe({
+        error: (err) => console.error('Error saving import profile:', err)
+      });
+    }
+
+    const newTransactions = this.preview.filter((_, index) => !this.decisions[index] || this.decisions[index] === 'keep');
+    const mergedRows = this.preview.map((_, index) => index).filter(index => this.decisions[index] === 'merge');
+    const total = newTransactions.length + mergedRows.length;
+    let written = 0;
+
+    this.importing = true;
+    this.errorMessage = '';
+    this.subscription.add(concat(
+      this.importService.importTransactions(newTransactions).pipe(map(transaction => this.preview.indexOf(transaction))),
+      from(mergedRows).pipe(concatMap(index => this.transactionService.updateTransaction(
+        this.duplicateDetector.merge(this.duplicates[index][0], this.preview[index])
+      ).pipe(map(() => index))))
+    ).subscribe({
+      next: (index) => {
+        written++;
+        this.writtenCount++;
+        this.decisions[index] = 'skip'; // Stored rows are not written again when the import is repeated
+      },
+      error: (err) => {
+        console.error('Error importing transactions:', err);
+        this.importing = false;
+        this.errorMessage = 'IMPORT_PARTIALLY_WRITTEN';
+        this.errorParams = { count: written, total };
+        this.validate();
+      },
+      complete: () => {
+        this.importing = false;
+        this.dialogRef.close(this.writtenCount || true);
+      }
+    }));
+  }
+
+  /**
+   * Closes the import dialog. The transactions are reloaded if rows were stored before an error.
+   */
+  closeDialog(): void {
+    this.dialogRef.close(this.writtenCount || undefined);
+  }
+
+  /**
+   * Creates an empty mapping with the most common settings of Austrian banks.
+   * @returns A new import profile
+   */
+  private createDefaultProfile(): ImportProfile {
+    return {
+      name: '',
+      delimiter: ';',
+      hasHeader: true,
+      headerSignature: '',
+      dateColumn: 0,
+      dateFormat: 'DD.MM.YYYY',
+      grossColumn: 1,
+      descriptionColumn: 2,
+      decimalSeparator: ',',
+      signMode: 'sign',
+      category: '',
+      incomeVatRate: this.defaultIncomeVatRate,
+      expenseVatRate: DEFAULT_VAT_RATE
+    };
+  }
+}
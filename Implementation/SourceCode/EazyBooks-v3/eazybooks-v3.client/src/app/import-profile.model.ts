@@ -0,0 +1,93 @@
+/**
+ * Represents a saved column mapping for importing CSV bank statements,
+ * so that the next import from the same bank needs no setup.
+ */
+export interface ImportProfile {
+  /**
+   * Optional: A unique ID for the import profile.
+   */
+  id?: string;
+
+  /**
+   * Display name of the profile (e.g. the name of the bank).
+   */
+  name: string;
+
+  /**
+   * Column delimiter of the CSV file (e.g. ";" or ",").
+   */
+  delimiter: string;
+
+  /**
+   * Whether the first row of the file contains column headers.
+   */
+  hasHeader: boolean;
+
+  /**
+   * Header row of the file the profile was created for, joined by the delimiter.
+   * Used to pick the matching profile automatically on the next import.
+   */
+  headerSignature: string;
+
+  /**
+   * Index of the column holding the booking date.
+   */
+  dateColumn: number;
+
+  /**
+   * Format of the booking date, e.g. 'DD.MM.YYYY', 'YYYY-MM-DD' or 'MM/DD/YYYY'.
+   */
+  dateFormat: string;
+
+  /**
+   * Index of the column holding the gross amount.
+   */
+  grossColumn: number;
+
+  /**
+   * Index of the column holding the description.
+   */
+  descriptionColumn: number;
+
+  /**
+   * Decimal separator used in the amount column, either ',' or '.'.
+   */
+  decimalSeparator: ',' | '.';
+
+  /**
+   * How income and expenses are distinguished:
+   * 'sign' uses the sign of the amount (negative = expense),
+   * 'column' uses a separate indicator column.
+   */
+  signMode: 'sign' | 'column';
+
+  /**
+   * Optional: Index of the income/expense indicator column (only for signMode 'column').
+   */
+  typeColumn?: number;
+
+  /**
+   * Optional: Value of the indicator column that marks an income (e.g. "H" or "CRDT").
+   */
+  incomeValue?: string;
+
+  /**
+   * Category assigned to imported transactions.
+   */
+  category: string;
+
+  /**
+   * Optional: VAT rate in percent assigned to imported incomes, unless a categorization rule sets one.
+   */
+  incomeVatRate?: number;
+
+  /**
+   * Optional: VAT rate in percent assigned to imported expenses, unless a categorization rule sets one.
+   */
+  expenseVatRate?: number;
+
+  /**
+   * User ID associated with the import profile.
+   */
+  userId?: string;
+}
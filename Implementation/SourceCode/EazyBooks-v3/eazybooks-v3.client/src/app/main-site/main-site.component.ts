@@ -1,10 +1,12 @@
 import { Component, OnInit } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
 import firebase from 'firebase/compat/app';
 import 'firebase/compat/auth';
 
 /**
  * The `MainSiteComponent` class is responsible for managing the main interface of the application.
  * It allows navigation between different sections such as the dashboard.
+ * The selected section is kept in the URL, so that it can be bookmarked.
  */
 @Component({
   selector: 'app-main-site',
@@ -14,9 +16,9 @@ import 'firebase/compat/auth';
 export class MainSiteComponent implements OnInit {
 
   /**
-   * Constructor that injects the Firestore service for database interactions.
+   * Constructor that injects the router for keeping the selected section in the URL.
    */
-  constructor() {
+  constructor(private router: Router, private route: ActivatedRoute) {
     console.log('Main site is active');
   }
 
@@ -34,6 +36,10 @@ export class MainSiteComponent implements OnInit {
     } else {
       console.log('User is not authenticated');
     }
+
+    this.route.queryParamMap.subscribe(params => {
+      this.selectedSection = params.get('section') || 'dashboard';
+    });
   }
 
   /**
@@ -49,6 +55,7 @@ export class MainSiteComponent implements OnInit {
    */
   showSection(section: string) {
     this.selectedSection = section;
+    this.router.navigate([], { relativeTo: this.route, queryParams: { section } });
   }
 
   /**
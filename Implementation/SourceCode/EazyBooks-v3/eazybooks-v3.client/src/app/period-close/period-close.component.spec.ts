@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { PeriodCloseComponent } from './period-close.component';
+
+describe('PeriodCloseComponent', () => {
+  let component: PeriodCloseComponent;
+  let fixture: ComponentFixture<PeriodCloseComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      declarations: [PeriodCloseComponent]
+    })
+    .compileComponents();
+    
+    fixture = TestBed.createComponent(PeriodCloseComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
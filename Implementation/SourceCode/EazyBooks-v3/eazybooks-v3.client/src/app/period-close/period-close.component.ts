@@ -0,0 +1,109 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { TranslateService } from '@ngx-translate/core';
+import { PeriodLockService } from '../services/period-lock.service';
+import { PeriodLockLogEntry } from '../period-lock.model';
+
+/**
+ * PeriodCloseComponent shows the months of a fiscal year with their lock state.
+ * Months can be closed one by one (e.g. after filing the VAT return) or all at
+ * once at the end of the fiscal year. Unlocking asks for a reason, and every
+ * change is listed in the log below.
+ */
+@Component({
+  selector: 'app-period-close',
+  templateUrl: './period-close.component.html',
+  styleUrls: ['./period-close.component.css']
+})
+export class PeriodCloseComponent implements OnInit, OnDestroy {
+
+  selectedYear: number = new Date().getFullYear(); // Fiscal year shown in the list
+  months: string[] = []; // Translated month names
+  lockedPeriods: string[] = []; // Closed months ("YYYY-MM")
+  log: PeriodLockLogEntry[] = []; // Log of locked and unlocked periods
+  private subscription: Subscription = new Subscription(); // Subscription to handle multiple observables
+
+  constructor(
+    private periodLockService: PeriodLockService, // Service for closed periods
+    private translate: TranslateService // Translate service for internationalization
+  ) { }
+
+  ngOnInit(): void {
+    this.subscription.add(this.translate.stream('MONTHS').subscribe((months: string[]) => {
+      this.months = months;
+    }));
+    this.subscription.add(this.periodLockService.getLockedPeriods().subscribe(lockedPeriods => {
+      this.lockedPeriods = lockedPeriods;
+    }));
+    this.subscription.add(this.periodLockService.getLog().subscribe(log => {
+      this.log = log;
+    }));
+  }
+
+  ngOnDestroy(): void {
+    // Unsubscribe from all subscriptions to avoid memory leaks
+    this.subscription.unsubscribe();
+  }
+
+  /**
+   * Returns the period key of a month of the selected year.
+   * @param monthIndex - The month (0 = January)
+   */
+  getPeriod(monthIndex: number): string {
+    return `${this.selectedYear}-${(monthIndex + 1).toString().padStart(2, '0')}`;
+  }
+
+  /**
+   * Returns whether a month of the selected year is locked.
+   * @param monthIndex - The month (0 = January)
+   */
+  isLocked(monthIndex: number): boolean {
+    return this.lockedPeriods.includes(this.getPeriod(monthIndex));
+  }
+
+  /**
+   * Returns whether all months of the selected year are locked.
+   */
+  get yearLocked(): boolean {
+    return this.months.every((_, i) => this.isLocked(i));
+  }
+
+  /**
+   * Locks a month of the selected year after user confirmation.
+   * @param monthIndex - The month (0 = January)
+   */
+  lock(monthIndex: number): void {
+    const period = this.getPeriod(monthIndex);
+    if (confirm(this.translate.instant('CONFIRM_LOCK_PERIOD', { period }))) {
+      this.periodLockService.lock([period]).subscribe({
+        error: (err) => console.error('Error locking period:', err)
+      });
+    }
+  }
+
+  /**
+   * Locks all open months of the selected fiscal year after user confirmation.
+   */
+  lockYear(): void {
+    const periods = this.months.map((_, i) => this.getPeriod(i)).filter(period => !this.lockedPeriods.includes(period));
+    if (periods.length && confirm(this.translate.instant('CONFIRM_LOCK_YEAR', { year: this.selectedYear }))) {
+      this.periodLockService.lock(periods).subscribe({
+        error: (err) => console.error('Error locking fiscal year:', err)
+      });
+    }
+  }
+
+  /**
+   * Unlocks a month of the selected year. The user has to give a reason, which is logged.
+   * @param monthIndex - The month (0 = January)
+   */
+  unlock(monthIndex: number): void {
+    const period = this.getPeriod(monthIndex);
+    const reason = prompt(this.translate.instant('UNLOCK_REASON', { period }));
+    if (reason && reason.trim()) {
+      this.periodLockService.unlock(period, reason).subscribe({
+        error: (err) => console.error('Error unlocking period:', err)
+      });
+    }
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Represents an entry of the log of locked and unlocked periods,
+ * stored in the "log" subcollection of the user's period lock document.
+ */
+export interface PeriodLockLogEntry {
+  /**
+   * Optional: The ID of the log document.
+   */
+  id?: string;
+
+  /**
+   * Whether the period was locked or unlocked.
+   */
+  action: 'lock' | 'unlock';
+
+  /**
+   * The affected month in the format "YYYY-MM".
+   */
+  period: string;
+
+  /**
+   * Reason given by the user (required for unlocking).
+   */
+  reason: string;
+
+  /**
+   * E-mail address (or user ID) of the user who made the change.
+   */
+  changedBy: string;
+
+  /**
+   * Time of the change in milliseconds since epoch.
+   */
+  changedAtInMillis: number;
+}
@@ -0,0 +1,40 @@
+/**
+ * Represents a receipt file stored in Firebase Storage. Transactions keep
+ * only references like this one in their attachments instead of the file content.
+ */
+export interface Receipt {
+  /**
+   * Path of the file in Firebase Storage ("receipts/{userId}/{hash}").
+   */
+  path: string;
+
+  /**
+   * Original name of the file.
+   */
+  fileName: string;
+
+  /**
+   * Size of the file in bytes.
+   */
+  size: number;
+
+  /**
+   * MIME type of the file (e.g. "application/pdf", "image/jpeg").
+   */
+  contentType: string;
+
+  /**
+   * SHA-256 hash of the file content as a hex string.
+   */
+  hash: string;
+
+  /**
+   * Optional: Kind of the document ('invoice', 'deliveryNote', 'paymentConfirmation' or 'other').
+   */
+  kind?: string;
+
+  /**
+   * Upload date in milliseconds since epoch.
+   */
+  uploadedAtInMillis: number;
+}
@@ -5,6 +5,15 @@ import jsPDF from 'jspdf';
 import 'jspdf-autotable';
 import { TranslateService } from '@ngx-translate/core';
 import { ReportService } from '../services/report.service';
+import { TransactionHistoryService } from '../services/transaction-history.service';
+import { TransactionHistoryEntry } from '../transaction-history.model';
+import { VatReturnService, U30_KENNZAHLEN } from '../services/vat-return.service';
+import { VatReturn } from '../vat-return.model';
+import { SettingsService } from '../services/settings.service';
+import { IncomeStatementService, E1A_LINES, E1aMapping, E1aStatement } from '../services/income-statement.service';
+import { CategoriesService } from '../services/categories.service';
+import { Observable, forkJoin, of } from 'rxjs';
+import { map, switchMap, take } from 'rxjs/operators';
 
 /**
  * Component for generating and managing reports.
@@ -21,6 +30,18 @@ export class ReportsComponent implements OnInit {
   selectedYear: number | null = null;
   /** List of reports with their IDs, names, and blob data. */
   reports: { id: string, name: string, blob: Blob }[] = [];
+  /** Whether the change history of the transactions is appended to the report. */
+  includeAuditLog: boolean = false;
+  /** Filing period of the VAT return. */
+  vatPeriod: 'monthly' | 'quarterly' = 'monthly';
+  /** Selected quarter (1-4) for a quarterly VAT return. */
+  selectedQuarter: number | null = null;
+  /** Lines of the E1a income statement. */
+  e1aLines = E1A_LINES;
+  /** Mapping of the categories to the E1a lines. */
+  e1aMapping: E1aMapping = {};
+  /** Categories of the user, listed in the mapping table. */
+  categories: any[] = [];
 
   /** Array to hold month options. */
   months: { value: number, name: string }[] = [];
@@ -30,11 +51,21 @@ export class ReportsComponent implements OnInit {
    * @param transactionService Service for handling transactions.
    * @param translate Service for translations.
    * @param reportService Service for managing reports.
+   * @param historyService Service for the change history of transactions.
+   * @param vatReturnService Service for the VAT return.
+   * @param settingsService Service for the tax number in the user settings.
+   * @param incomeStatementService Service for the E1a income statement.
+   * @param categoriesService Service for the categories of the mapping table.
    */
   constructor(
     private transactionService: TransactionServiceComponent,
     private translate: TranslateService,
-    private reportService: ReportService
+    private reportService: ReportService,
+    private historyService: TransactionHistoryService,
+    private vatReturnService: VatReturnService,
+    private settingsService: SettingsService,
+    private incomeStatementService: IncomeStatementService,
+    private categoriesService: CategoriesService
   ) { }
 
   /**
@@ -44,6 +75,8 @@ export class ReportsComponent implements OnInit {
   ngOnInit(): void {
     this.loadMonths();
     this.loadReports();
+    this.categoriesService.getCategories().subscribe(categories => this.categories = categories);
+    this.incomeStatementService.getMapping().subscribe(mapping => this.e1aMapping = { ...mapping });
   }
 
   /**
@@ -130,10 +163,12 @@ export class ReportsComponent implements OnInit {
       startDate = new Date(this.selectedYear, selectedMonthNumber - 1, 1);
       endDate = new Date(this.selectedYear, selectedMonthNumber, 0);
 
-      this.transactionService.getTransactionsBetweenDates(startDate, endDate).subscribe(transactions => {
+      this.transactionService.getTransactionsBetweenDates(startDate, endDate).pipe(
+        switchMap(transactions => this.loadAuditLog(transactions).pipe(map(auditLog => ({ transactions, auditLog }))))
+      ).subscribe(({ transactions, auditLog }) => {
         if (this.selectedYear) {
           const baseName = `${this.translate.instant('MONTHLY_REPORT')} ${monthName} ${this.selectedYear}`;
-          const reportData = this.createPdf(transactions, reportType, monthName);
+          const reportData = this.createPdf(transactions, reportType, monthName, auditLog);
           const reportName = this.generateUniqueReportName(baseName);
           this.reports.push({
             id: Date.now().toString(),
@@ -153,10 +188,12 @@ export class ReportsComponent implements OnInit {
       startDate = new Date(this.selectedYear, 0, 1);
       endDate = new Date(this.selectedYear + 1, 0, 0);
 
-      this.transactionService.getTransactionsBetweenDates(startDate, endDate).subscribe(transactions => {
+      this.transactionService.getTransactionsBetweenDates(startDate, endDate).pipe(
+        switchMap(transactions => this.loadAuditLog(transactions).pipe(map(auditLog => ({ transactions, auditLog }))))
+      ).subscribe(({ transactions, auditLog }) => {
         if (this.selectedYear) {
           const baseName = `${this.translate.instant('YEARLY_REPORT')} ${this.selectedYear}`;
-          const reportData = this.createPdf(transactions, reportType, this.selectedYear.toString());
+          const reportData = this.createPdf(transactions, reportType, this.selectedYear.toString(), auditLog);
           const reportName = this.generateUniqueReportName(baseName);
           this.reports.push({
             id: Date.now().toString(),
@@ -177,6 +214,107 @@ export class ReportsComponent implements OnInit {
     }
   }
 
+  /**
+   * Generates the VAT return (U30) for the selected month or quarter, either as
+   * PDF report or as XML file for the FinanzOnline upload.
+   * @param format Output format ('pdf' or 'xml').
+   */
+  generateVatReturn(format: 'pdf' | 'xml'): void {
+    const period = this.vatPeriod === 'monthly' ? this.selectedMonth : this.selectedQuarter;
+    if (!this.selectedYear || !period) {
+      console.error('Invalid input');
+      return;
+    }
+
+    const year = Number(this.selectedYear);
+    const firstMonth = this.vatPeriod === 'monthly' ? Number(period) : (Number(period) - 1) * 3 + 1;
+    const lastMonth = this.vatPeriod === 'monthly' ? firstMonth : firstMonth + 2;
+    const startDate = new Date(year, firstMonth - 1, 1);
+    const endDate = new Date(year, lastMonth, 0, 23, 59, 59, 999);
+    const toPeriod = (month: number) => `${year}-${month.toString().padStart(2, '0')}`;
+    const periodName = this.vatPeriod === 'monthly'
+      ? `${this.months.find(m => m.value === firstMonth)?.name} ${year}`
+      : `Q${period} ${year}`;
+
+    forkJoin([
+      this.transactionService.getTransactionsBetweenDates(startDate, endDate),
+      this.settingsService.getSettings().pipe(take(1))
+    ]).subscribe(([transactions, settings]) => {
+      const vatReturn = this.vatReturnService.calculate(transactions, toPeriod(firstMonth), toPeriod(lastMonth), !!settings?.smallBusiness);
+
+      if (format === 'xml') {
+        if (!settings?.taxNumber) {
+          alert(this.translate.instant('TAX_NUMBER_MISSING'));
+          return;
+        }
+        const xml = this.vatReturnService.toXml(vatReturn, settings.taxNumber);
+        saveAs(new Blob([xml], { type: 'application/xml;charset=utf-8' }), `U30_${vatReturn.periodFrom}_${vatReturn.periodTo}.xml`);
+      } else {
+        const reportName = this.generateUniqueReportName(`${this.translate.instant('VAT_RETURN')} ${periodName}`);
+        const reportData = this.createVatReturnPdf(vatReturn, periodName);
+        this.reports.push({
+          id: Date.now().toString(),
+          name: reportName,
+          blob: reportData
+        });
+        this.saveReportToDatabase(reportName, reportData);
+      }
+    }, error => {
+      console.error('Error generating VAT return:', error);
+    });
+  }
+
+  /**
+   * Saves the mapping of the categories to the E1a lines.
+   */
+  saveE1aMapping(): void {
+    this.incomeStatementService.saveMapping(this.e1aMapping).subscribe({
+      error: (err) => console.error('Error saving E1a mapping:', err)
+    });
+  }
+
+  /**
+   * Generates the annual income statement (Einnahmen-Ausgaben-Rechnung) of the
+   * selected year with the E1a lines and the previous year for comparison.
+   */
+  generateIncomeStatement(): void {
+    if (!this.selectedYear) {
+      console.error('Year is missing');
+      return;
+    }
+
+    const year = Number(this.selectedYear);
+    forkJoin([
+      this.transactionService.getTransactionsBetweenDates(new Date(year, 0, 1), new Date(year, 11, 31, 23, 59, 59, 999)),
+      this.transactionService.getTransactionsBetweenDates(new Date(year - 1, 0, 1), new Date(year - 1, 11, 31, 23, 59, 59, 999))
+    ]).subscribe(([transactions, previousTransactions]) => {
+      const current = this.incomeStatementService.calculate(transactions, this.e1aMapping);
+      const previous = this.incomeStatementService.calculate(previousTransactions, this.e1aMapping);
+      const reportName = this.generateUniqueReportName(`${this.translate.instant('INCOME_STATEMENT')} ${year}`);
+      const reportData = this.createIncomeStatementPdf(current, previous, year);
+      this.reports.push({
+        id: Date.now().toString(),
+        name: reportName,
+        blob: reportData
+      });
+      this.saveReportToDatabase(reportName, reportData);
+    }, error => {
+      console.error('Error generating income statement:', error);
+    });
+  }
+
+  /**
+   * Loads the change history of the transactions if the audit log is to be included.
+   * @param transactions The transactions of the report.
+   * @returns An observable that emits the history per document number, or undefined.
+   */
+  private loadAuditLog(transactions: any[]): Observable<{ [documentNumber: string]: TransactionHistoryEntry[] } | undefined> {
+    if (!this.includeAuditLog) {
+      return of(undefined);
+    }
+    return this.historyService.getHistories(transactions.map(transaction => transaction.documentNumber));
+  }
+
   /**
    * Generates a unique report name based on a base name.
    * @param baseName The base name for the report.
@@ -215,9 +353,10 @@ export class ReportsComponent implements OnInit {
    * @param transactions The list of transactions to include in the report.
    * @param reportType The type of report ('monthly' or 'yearly').
    * @param period The period for the report (month name or year).
+   * @param auditLog Optional: The change history per document number, appended as audit log.
    * @returns The generated PDF as a Blob.
    */
-  createPdf(transactions: any[], reportType: string, period: string): Blob {
+  createPdf(transactions: any[], reportType: string, period: string, auditLog?: { [documentNumber: string]: TransactionHistoryEntry[] }): Blob {
     const doc = new jsPDF();
 
     // Colors and styles from your CSS file
@@ -305,6 +444,144 @@ export class ReportsComponent implements OnInit {
       });
     }
 
+    if (auditLog) {
+      doc.addPage();
+
+      doc.setFontSize(18);
+      doc.setTextColor(...headerColor);
+      doc.text(this.translate.instant('AUDIT_LOG'), 10, 20);
+
+      const auditData = transactions.flatMap(transaction => (auditLog[transaction.documentNumber] || []).flatMap(entry => {
+        const changes = entry.changes.length ? entry.changes : [null];
+        return changes.map(change => [
+          transaction.documentNumber,
+          new Date(entry.changedAtInMillis).toLocaleString('de-AT'),
+          entry.changedBy,
+          this.translate.instant('HISTORY_' + entry.action.toUpperCase()),
+          change?.field || '',
+          change?.oldValue ?? '',
+          change?.newValue ?? ''
+        ]);
+      }));
+
+      (doc as any).autoTable({
+        head: [[
+          this.translate.instant('NUMBER'), this.translate.instant('CHANGED_AT'), this.translate.instant('CHANGED_BY'),
+          this.translate.instant('ACTION'), this.translate.instant('FIELD'), this.translate.instant('OLD_VALUE'), this.translate.instant('NEW_VALUE')
+        ]],
+        body: auditData,
+        startY: 30,
+        theme: 'striped',
+        headStyles: { fillColor: headerColor },
+        styles: { cellPadding: 2, fontSize: 8, textColor: [0, 0, 0], fillColor: backgroundColor, lineColor: borderColor }
+      });
+    }
+
+    return doc.output('blob');
+  }
+
+  /**
+   * Creates a PDF of the VAT return with the U30 Kennzahlen.
+   * @param vatReturn The calculated VAT return.
+   * @param period The period of the VAT return (month name or quarter and year).
+   * @returns The generated PDF as a Blob.
+   */
+  createVatReturnPdf(vatReturn: VatReturn, period: string): Blob {
+    const doc = new jsPDF();
+    const headerColor: [number, number, number] = [138, 184, 245];
+    const textColor: [number, number, number] = [51, 51, 51];
+    const backgroundColor: [number, number, number] = [255, 255, 255];
+    const borderColor: [number, number, number] = [204, 204, 204];
+
+    doc.setFontSize(22);
+    doc.setTextColor(...headerColor);
+    doc.text(this.translate.instant('VAT_RETURN'), 10, 20);
+
+    doc.setFontSize(16);
+    doc.setTextColor(...textColor);
+    doc.text(`${this.translate.instant('PERIOD')}: ${period}`, 10, 30);
+    doc.text(`${this.translate.instant('CREATED_ON')}: ${new Date().toLocaleDateString()}`, 10, 40);
+
+    const tableData = U30_KENNZAHLEN
+      .filter(({ kennzahl }) => kennzahl !== '095' && vatReturn.kennzahlen[kennzahl] != null)
+      .map(({ kennzahl, label }) => {
+        const tax = this.vatReturnService.taxOf(vatReturn, kennzahl);
+        return [
+          kennzahl,
+          this.translate.instant(label),
+          this.formatAmount(vatReturn.kennzahlen[kennzahl].toFixed(2)),
+          tax != null ? this.formatAmount(tax.toFixed(2)) : ''
+        ];
+      });
+
+    (doc as any).autoTable({
+      head: [[this.translate.instant('KENNZAHL'), this.translate.instant('DESCRIPTION'), this.translate.instant('AMOUNT'), this.translate.instant('VAT_AMOUNT')]],
+      body: tableData,
+      foot: [
+        ['', this.translate.instant('OUTPUT_TAX'), '', this.formatAmount(vatReturn.outputTax.toFixed(2))],
+        ['', this.translate.instant('INPUT_TAX'), '', this.formatAmount(vatReturn.inputTax.toFixed(2))],
+        ['095', this.translate.instant(vatReturn.payable >= 0 ? 'VAT_PAYABLE' : 'VAT_REFUNDABLE'), '', this.formatAmount(vatReturn.payable.toFixed(2))]
+      ],
+      startY: 50,
+      theme: 'striped',
+      headStyles: { fillColor: headerColor },
+      footStyles: { fillColor: headerColor },
+      styles: { cellPadding: 3, fontSize: 10, textColor: [0, 0, 0], fillColor: backgroundColor, lineColor: borderColor }
+    });
+
+    return doc.output('blob');
+  }
+
+  /**
+   * Creates a PDF of the income statement with the E1a lines and year-over-year comparison.
+   * @param current The income statement of the year.
+   * @param previous The income statement of the previous year.
+   * @param year The year of the income statement.
+   * @returns The generated PDF as a Blob.
+   */
+  createIncomeStatementPdf(current: E1aStatement, previous: E1aStatement, year: number): Blob {
+    const doc = new jsPDF();
+    const headerColor: [number, number, number] = [138, 184, 245];
+    const textColor: [number, number, number] = [51, 51, 51];
+    const backgroundColor: [number, number, number] = [255, 255, 255];
+    const borderColor: [number, number, number] = [204, 204, 204];
+    const row = (kennzahl: string, label: string, amount: number, previousAmount: number) => [
+      kennzahl,
+      this.translate.instant(label),
+      this.formatAmount(amount.toFixed(2)),
+      this.formatAmount(previousAmount.toFixed(2)),
+      this.formatAmount((amount - previousAmount).toFixed(2))
+    ];
+
+    doc.setFontSize(22);
+    doc.setTextColor(...headerColor);
+    doc.text(this.translate.instant('INCOME_STATEMENT'), 10, 20);
+
+    doc.setFontSize(16);
+    doc.setTextColor(...textColor);
+    doc.text(`${this.translate.instant('YEAR')}: ${year}`, 10, 30);
+    doc.text(`${this.translate.instant('CREATED_ON')}: ${new Date().toLocaleDateString()}`, 10, 40);
+
+    const tableData = E1A_LINES
+      .filter(line => current.lines[line.kennzahl] || previous.lines[line.kennzahl])
+      .map(line => row(line.kennzahl, line.label, current.lines[line.kennzahl] || 0, previous.lines[line.kennzahl] || 0));
+
+    (doc as any).autoTable({
+      head: [[this.translate.instant('KENNZAHL'), this.translate.instant('DESCRIPTION'), year.toString(), (year - 1).toString(), this.translate.instant('CHANGE')]],
+      body: tableData,
+      foot: [
+        row('', 'REVENUE', current.totalIncome, previous.totalIncome),
+        row('', 'COSTS', current.totalExpenses, previous.totalExpenses),
+        row('', current.profit >= 0 ? 'PROFIT' : 'LOSS', current.profit, previous.profit)
+      ],
+      startY: 50,
+      theme: 'striped',
+      headStyles: { fillColor: headerColor },
+      footStyles: { fillColor: headerColor },
+      columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' } },
+      styles: { cellPadding: 3, fontSize: 10, textColor: [0, 0, 0], fillColor: backgroundColor, lineColor: borderColor }
+    });
+
     return doc.output('blob');
   }
 
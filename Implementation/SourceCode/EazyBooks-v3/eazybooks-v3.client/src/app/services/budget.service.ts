@@ -1,8 +1,9 @@
 import { Injectable } from '@angular/core';
 import { AngularFirestore } from '@angular/fire/compat/firestore';
 import { Observable, from } from 'rxjs';
-import { switchMap } from 'rxjs/operators';
+import { map, switchMap } from 'rxjs/operators';
 import { AuthService } from './auth-service.service';
+import { TrashService } from './trash.service';
 import firebase from 'firebase/compat/app';
 import { BudgetEntry } from '../budget-entry.model';
 
@@ -15,7 +16,7 @@ import { BudgetEntry } from '../budget-entry.model';
 })
 export class BudgetService {
 
-  constructor(private firestore: AngularFirestore, private authService: AuthService) { }
+  constructor(private firestore: AngularFirestore, private authService: AuthService, private trashService: TrashService) { }
 
   /**
    * Adds a new budget entry to the Firestore collection.
@@ -65,17 +66,18 @@ export class BudgetService {
   }
 
   /**
-   * Deletes a budget entry from the Firestore collection.
+   * Moves a budget entry to the recycle bin.
    *
    * @param id - The ID of the budget to be deleted.
    * @returns An observable that completes when the budget is deleted.
    */
   deleteBudget(id: string): Observable<void> {
-    return from(this.firestore.collection('budgets').doc(id).delete());
+    return from(this.firestore.collection('budgets').doc(id).update(this.trashService.trashFields()));
   }
 
   /**
-   * Retrieves all budget entries for the current user from Firestore.
+   * Retrieves all budget entries for the current user from Firestore,
+   * except the ones in the recycle bin.
    *
    * @returns An observable that emits an array of BudgetEntry objects.
    */
@@ -86,7 +88,9 @@ export class BudgetService {
           return this.firestore.collection<BudgetEntry>('budgets', ref =>
             ref.where('userId', '==', user.uid)  // Nur Budgets für den aktuellen Benutzer abrufen
               .orderBy('goalDateInMillis', 'desc')
-          ).valueChanges();
+          ).valueChanges().pipe(
+            map(budgets => budgets.filter(budget => !budget.deleted))
+          );
         } else {
           return new Observable<BudgetEntry[]>(); // Rückgabe eines leeren Observables, wenn kein Benutzer angemeldet ist
         }
@@ -1,8 +1,9 @@
 import { Injectable } from '@angular/core';
 import { AngularFirestore } from '@angular/fire/compat/firestore';
 import { Observable, from } from 'rxjs';
-import { switchMap } from 'rxjs/operators';
+import { map, switchMap } from 'rxjs/operators';
 import { AuthService } from './auth-service.service'; // Path to your AuthService
+import { TrashService } from './trash.service';
 import firebase from 'firebase/compat/app';
 
 /**
@@ -17,7 +18,7 @@ export class CategoriesService {
 
   private collectionName = 'categories';
 
-  constructor(private firestore: AngularFirestore, private authService: AuthService) {
+  constructor(private firestore: AngularFirestore, private authService: AuthService, private trashService: TrashService) {
     this.initializeCategories();
   }
 
@@ -97,17 +98,18 @@ export class CategoriesService {
   }
 
   /**
-   * Deletes a category from the Firestore collection.
+   * Moves a category to the recycle bin.
    *
    * @param id - The ID of the category to be deleted.
    * @returns An observable that completes when the category is deleted.
    */
   deleteCategory(id: string): Observable<void> {
-    return from(this.firestore.collection(this.collectionName).doc(id).delete());
+    return from(this.firestore.collection(this.collectionName).doc(id).update(this.trashService.trashFields()));
   }
 
   /**
-   * Retrieves all categories from the Firestore collection for the current user.
+   * Retrieves all categories from the Firestore collection for the current user,
+   * except the ones in the recycle bin.
    *
    * @returns An observable that emits an array of category objects.
    */
@@ -117,7 +119,9 @@ export class CategoriesService {
         if (user) {
           return this.firestore.collection(this.collectionName, ref =>
             ref.where('userId', '==', user.uid).orderBy('name', 'asc')
-          ).valueChanges();
+          ).valueChanges().pipe(
+            map((categories: any[]) => categories.filter(category => !category.deleted))
+          );
         } else {
           return new Observable<any[]>(); // Return an empty observable if no user is logged in
         }
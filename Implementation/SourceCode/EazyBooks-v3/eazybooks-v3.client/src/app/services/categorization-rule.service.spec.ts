@@ -0,0 +1,85 @@
+import { TestBed } from '@angular/core/testing';
+import { AngularFirestore } from '@angular/fire/compat/firestore';
+
+import { CategorizationRuleService } from './categorization-rule.service';
+import { AuthService } from './auth-service.service';
+import { CategorizationRule } from '../categorization-rule.model';
+import { TransactionEntry } from '../transaction-entry.model';
+import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
+
+describe('CategorizationRuleService', () => {
+  let service: CategorizationRuleService;
+
+  const rule = (changes: Partial<CategorizationRule>): CategorizationRule => ({
+    name: 'Rule',
+    priority: 0,
+    active: true,
+    ...changes
+  });
+  const transaction = (description: string, gross: number) =>
+    new TransactionEntry('', '2024-05-01', gross, gross, description, '', 'expense', 0);
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: AngularFirestore, useValue: {} },
+        { provide: AuthService, useValue: {} },
+        { provide: TransactionServiceComponent, useValue: {} }
+      ]
+    });
+    service = TestBed.inject(CategorizationRuleService);
+  });
+
+  it('should match when all conditions are met', () => {
+    const fuel = rule({ descriptionContains: ' OMV ', minAmount: 20, maxAmount: 150 });
+
+    expect(service.matches(fuel, transaction('Tankstelle omv Wien', 60))).toBeTrue();
+    expect(service.matches(fuel, transaction('Tankstelle omv Wien', 160))).toBeFalse();
+    expect(service.matches(fuel, transaction('Billa', 60))).toBeFalse();
+  });
+
+  it('should compare IBANs without spaces and case', () => {
+    const rent = rule({ counterpartyIban: 'at61 1904 3002 3457 3201' });
+    const payment = transaction('Miete', 800);
+    payment.counterpartyIban = 'AT611904300234573201';
+
+    expect(service.matches(rent, payment)).toBeTrue();
+    expect(service.matches(rent, transaction('Miete', 800))).toBeFalse();
+  });
+
+  it('should not match with a rule without conditions', () => {
+    expect(service.matches(rule({ category: 'Sonstiges' }), transaction('Billa', 10))).toBeFalse();
+  });
+
+  it('should find the first active matching rule', () => {
+    const rules = [
+      rule({ name: 'inactive', active: false, descriptionContains: 'billa' }),
+      rule({ name: 'first', descriptionContains: 'billa' }),
+      rule({ name: 'second', descriptionContains: 'bil' })
+    ];
+
+    expect(service.findRule(rules, transaction('BILLA Filiale', 10))?.name).toBe('first');
+    expect(service.findRule(rules, transaction('Spar', 10))).toBeUndefined();
+  });
+
+  it('should assign the actions of a rule and recalculate the net amount', () => {
+    const entry = transaction('Buchhandlung', 110);
+    service.apply(rule({ category: 'Fachliteratur', vatRate: 10, incomeExpenses: 'expense' }), entry);
+
+    expect(entry.category).toBe('Fachliteratur');
+    expect(entry.vatRate).toBe(10);
+    expect(entry.net).toBe(100);
+    expect(entry.vatAmount).toBe(10);
+  });
+
+  it('should keep fields the user has chosen', () => {
+    const entry = transaction('Buchhandlung', 120);
+    entry.category = 'Büromaterial';
+    entry.vatRate = 20;
+    service.apply(rule({ category: 'Fachliteratur', vatRate: 10 }), entry, ['category', 'vatRate']);
+
+    expect(entry.category).toBe('Büromaterial');
+    expect(entry.vatRate).toBe(20);
+    expect(entry.net).toBe(100);
+  });
+});
@@ -0,0 +1,230 @@
+import { Injectable } from '@angular/core';
+import { AngularFirestore } from '@angular/fire/compat/firestore';
+import { Observable, from, of } from 'rxjs';
+import { catchError, concatMap, map, reduce, switchMap, take } from 'rxjs/operators';
+import { AuthService } from './auth-service.service';
+import firebase from 'firebase/compat/app';
+import { CategorizationRule } from '../categorization-rule.model';
+import { TransactionEntry } from '../transaction-entry.model';
+import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
+import { VatService } from './vat.service';
+
+/**
+ * CategorizationRuleService manages the user-defined categorization rules in
+ * Firestore and applies them to transactions. Rules are checked in the order
+ * of their priority; the first active rule whose conditions all match assigns
+ * its category, VAT rate and type.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CategorizationRuleService {
+
+  private collectionName = 'categorizationRules';
+
+  constructor(
+    private firestore: AngularFirestore,
+    private authService: AuthService,
+    private transactionService: TransactionServiceComponent,
+    private vatService: VatService
+  ) { }
+
+  /**
+   * Retrieves the rules of the current user, ordered by priority.
+   *
+   * @returns An observable that emits the rules.
+   */
+  getRules(): Observable<CategorizationRule[]> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (user) {
+          return this.firestore.collection<CategorizationRule>(this.collectionName, ref =>
+            ref.where('userId', '==', user.uid)
+          ).valueChanges({ idField: 'id' }).pipe(
+            map(rules => rules.sort((a, b) => a.priority - b.priority))
+          );
+        } else {
+          return new Observable<CategorizationRule[]>(); // Return an empty observable if no user is logged in
+        }
+      })
+    );
+  }
+
+  /**
+   * Saves a rule of the current user. Existing rules are overwritten.
+   *
+   * @param rule - The rule to save.
+   * @returns An observable that completes when the rule is saved.
+   */
+  saveRule(rule: CategorizationRule): Observable<void> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (user) {
+          const id = rule.id || this.firestore.createId();
+          return from(this.firestore.collection(this.collectionName).doc(id).set(this.toDocument({
+            ...rule,
+            id: id,
+            userId: user.uid
+          })));
+        } else {
+          throw new Error('User not authenticated');
+        }
+      })
+    );
+  }
+
+  /**
+   * Stores the order of the given rules as their priorities.
+   *
+   * @param rules - The rules in their new order.
+   * @returns An observable that completes when the priorities are saved.
+   */
+  savePriorities(rules: CategorizationRule[]): Observable<void> {
+    const batch = this.firestore.firestore.batch();
+    rules.forEach((rule, index) => {
+      batch.update(this.firestore.firestore.collection(this.collectionName).doc(rule.id!), { priority: index });
+    });
+    return from(batch.commit());
+  }
+
+  /**
+   * Deletes a rule. Transactions it has categorized keep their category.
+   *
+   * @param id - The ID of the rule to delete.
+   * @returns An observable that completes when the rule is deleted.
+   */
+  deleteRule(id: string): Observable<void> {
+    return from(this.firestore.collection(this.collectionName).doc(id).delete());
+  }
+
+  /**
+   * Checks whether all conditions of a rule are met by a transaction.
+   * A rule without conditions matches nothing.
+   *
+   * @param rule - The rule to check.
+   * @param transaction - The transaction to check.
+   * @returns True if the rule matches the transaction.
+   */
+  matches(rule: CategorizationRule, transaction: Partial<TransactionEntry>): boolean {
+    const text = rule.descriptionContains?.trim().toLowerCase();
+    const iban = this.normalizeIban(rule.counterpartyIban);
+    if (!text && rule.minAmount == null && rule.maxAmount == null && !iban) {
+      return false;
+    }
+
+    const gross = transaction.gross || 0;
+    return (!text || (transaction.description || '').toLowerCase().includes(text))
+      && (rule.minAmount == null || gross >= rule.minAmount)
+      && (rule.maxAmount == null || gross <= rule.maxAmount)
+      && (!iban || this.normalizeIban(transaction.counterpartyIban) === iban);
+  }
+
+  /**
+   * Returns the first active rule matching a transaction.
+   *
+   * @param rules - The rules ordered by priority.
+   * @param transaction - The transaction to categorize.
+   * @returns The matching rule or undefined if none matches.
+   */
+  findRule(rules: CategorizationRule[], transaction: Partial<TransactionEntry>): CategorizationRule | undefined {
+    return rules.find(rule => rule.active && this.matches(rule, transaction));
+  }
+
+  /**
+   * Assigns the category, VAT rate and type of a rule to a transaction and
+   * recalculates its net amount. Fields the rule does not set are kept.
+   *
+   * @param rule - The rule to apply.
+   * @param transaction - The transaction to update.
+   * @param skipFields - Fields that must not be changed, e.g. because the user has chosen them.
+   */
+  apply(rule: CategorizationRule, transaction: TransactionEntry, skipFields: string[] = []): void {
+    if (rule.category && !skipFields.includes('category')) {
+      transaction.category = rule.category;
+    }
+    if (rule.vatRate != null && !skipFields.includes('vatRate')) {
+      transaction.vatRate = rule.vatRate;
+    }
+    if (rule.incomeExpenses && !skipFields.includes('incomeExpenses')) {
+      transaction.incomeExpenses = rule.incomeExpenses;
+    }
+    this.vatService.calculateFromGross(transaction);
+  }
+
+  /**
+   * Applies the first matching active rule to each of the given transactions.
+   *
+   * @param rules - The rules ordered by priority.
+   * @param transactions - The transactions to categorize.
+   * @returns The transactions, categorized where a rule matched.
+   */
+  categorize(rules: CategorizationRule[], transactions: TransactionEntry[]): TransactionEntry[] {
+    transactions.forEach(transaction => {
+      const rule = this.findRule(rules, transaction);
+      if (rule) {
+        this.apply(rule, transaction);
+      }
+    });
+    return transactions;
+  }
+
+  /**
+   * Returns the stored transactions a rule would change, for a preview before it is saved or applied.
+   *
+   * @param rule - The rule to test.
+   * @param transactions - The stored transactions.
+   * @returns The matching transactions whose category, VAT rate or type would change.
+   */
+  testRule(rule: CategorizationRule, transactions: TransactionEntry[]): TransactionEntry[] {
+    return transactions.filter(transaction => this.matches(rule, transaction) && this.wouldChange(rule, transaction));
+  }
+
+  /**
+   * Applies a rule to all stored transactions it matches. Transactions in closed
+   * periods cannot be changed and are skipped.
+   *
+   * @param rule - The rule to apply.
+   * @returns An observable that emits the number of changed transactions.
+   */
+  applyRetroactively(rule: CategorizationRule): Observable<number> {
+    return this.transactionService.getTransactions().pipe(
+      take(1),
+      switchMap(transactions => from(this.testRule(rule, transactions))),
+      concatMap(transaction => {
+        const changed = { ...transaction } as TransactionEntry;
+        this.apply(rule, changed);
+        return this.transactionService.updateTransaction(changed).pipe(
+          map(() => 1),
+          catchError(error => {
+            console.warn(`Transaction ${transaction.documentNumber} not changed:`, error);
+            return of(0);
+          })
+        );
+      }),
+      reduce((count, changed) => count + changed, 0)
+    );
+  }
+
+  /**
+   * Returns whether applying a rule would change a transaction.
+   */
+  private wouldChange(rule: CategorizationRule, transaction: TransactionEntry): boolean {
+    return (!!rule.category && rule.category !== transaction.category)
+      || (rule.vatRate != null && rule.vatRate !== this.vatService.rateOf(transaction))
+      || (!!rule.incomeExpenses && rule.incomeExpenses !== transaction.incomeExpenses);
+  }
+
+  /**
+   * Removes spaces from an IBAN and converts it to upper case.
+   */
+  private normalizeIban(iban: string | undefined): string {
+    return (iban || '').replace(/\s/g, '').toUpperCase();
+  }
+
+  /**
+   * Removes empty conditions and actions, which Firestore cannot store as undefined.
+   */
+  private toDocument(rule: CategorizationRule): { [field: string]: any } {
+    return Object.fromEntries(Object.entries(rule).filter(([, value]) => value !== undefined && value !== null && value !== ''));
+  }
+}
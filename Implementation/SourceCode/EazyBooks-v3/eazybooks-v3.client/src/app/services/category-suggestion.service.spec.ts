@@ -0,0 +1,69 @@
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+
+import { CategorySuggestionService } from './category-suggestion.service';
+import { AuthService } from './auth-service.service';
+import { TransactionEntry } from '../transaction-entry.model';
+import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
+
+describe('CategorySuggestionService', () => {
+  let service: CategorySuggestionService;
+
+  const transaction = (documentNumber: string, description: string, category: string) =>
+    new TransactionEntry(documentNumber, '2024-05-01', 10, 10, description, category, 'expense', 0);
+  const history = [
+    transaction('1', 'OMV Tankstelle Wien', 'Treibstoff'),
+    transaction('2', 'Shell Tankstelle Graz', 'Treibstoff'),
+    transaction('3', 'BP Tankstelle Linz', 'Treibstoff'),
+    transaction('4', 'Billa Wien', 'Lebensmittel'),
+    transaction('5', 'Spar Graz', 'Lebensmittel')
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: AuthService, useValue: { getCurrentUserId: () => of('') } },
+        { provide: TransactionServiceComponent, useValue: {} }
+      ]
+    });
+    service = TestBed.inject(CategorySuggestionService);
+    service.update(history);
+  });
+
+  it('should suggest the category whose words match the description', () => {
+    const [first, second] = service.suggest('Tankstelle Salzburg');
+
+    expect(first.category).toBe('Treibstoff');
+    expect(second.category).toBe('Lebensmittel');
+    expect(first.confidence + second.confidence).toBeCloseTo(1, 9);
+  });
+
+  it('should weigh the words against the number of transactions per category', () => {
+    // "wien" occurs once per category: 3/5 * 2/18 for fuel against 2/5 * 2/13 for groceries
+    const [first, second] = service.suggest('Wien');
+
+    expect(first.category).toBe('Treibstoff');
+    expect(first.confidence).toBeCloseTo(0.52, 2);
+    expect(second.confidence).toBeCloseTo(0.48, 2);
+  });
+
+  it('should complete the word being typed', () => {
+    expect(service.suggest('Tanks')[0].category).toBe('Treibstoff');
+    expect(service.suggest('bil')[0].category).toBe('Lebensmittel');
+    expect(service.suggest('Hofer')).toEqual([]);
+  });
+
+  it('should only suggest the given categories', () => {
+    expect(service.suggest('Tankstelle', ['Lebensmittel']).map(s => s.category)).toEqual(['Lebensmittel']);
+  });
+
+  it('should unlearn corrected and deleted transactions', () => {
+    service.update([
+      transaction('1', 'OMV Tankstelle Wien', 'Reisekosten'),
+      ...history.slice(3)
+    ]);
+
+    expect(service.suggest('Tankstelle')[0].category).toBe('Reisekosten');
+    expect(service.suggest('Shell')).toEqual([]);
+  });
+});
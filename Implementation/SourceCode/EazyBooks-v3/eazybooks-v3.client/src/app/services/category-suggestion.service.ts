@@ -0,0 +1,233 @@
+import { Injectable } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { distinctUntilChanged } from 'rxjs/operators';
+import { AuthService } from './auth-service.service';
+import { TransactionEntry } from '../transaction-entry.model';
+import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
+
+/** Number of categories suggested for a description. */
+export const SUGGESTION_COUNT = 3;
+
+/** A suggested category with the probability that it is the right one. */
+export interface CategorySuggestion {
+  category: string; // Name of the category
+  confidence: number; // Probability between 0 and 1
+}
+
+/** What has been learned from a single transaction, so that it can be unlearned when it changes. */
+interface LearnedTransaction {
+  category: string;
+  tokens: string[];
+}
+
+/**
+ * CategorySuggestionService suggests categories for a description with a
+ * naive Bayes classifier trained on the user's own transactions. It runs
+ * entirely on the device: the word counts per category are kept in memory and
+ * updated incrementally whenever transactions are added, corrected or deleted.
+ * The model is forgotten when the user signs out or another user signs in.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CategorySuggestionService {
+
+  private learned = new Map<string, LearnedTransaction>(); // Learned transactions by document number
+  private documentCounts = new Map<string, number>(); // Number of transactions per category
+  private tokenCounts = new Map<string, Map<string, number>>(); // Occurrences of each word per category
+  private tokenTotals = new Map<string, number>(); // Number of words per category
+  private vocabulary = new Map<string, number>(); // Occurrences of each word in all categories
+  private training?: Subscription; // Subscription to the transactions the model is trained on
+  private userId?: string; // User whose transactions the model is trained on
+
+  constructor(
+    private transactionService: TransactionServiceComponent,
+    private authService: AuthService
+  ) {
+    // Stop training and forget the model when the user signs out or changes
+    this.authService.getCurrentUserId().pipe(distinctUntilChanged()).subscribe(userId => {
+      if (userId !== this.userId) {
+        this.stopTraining();
+      }
+    });
+  }
+
+  /**
+   * Starts training on the transactions of the current user and keeps the
+   * model up to date with later changes. Calling it again has no effect
+   * unless another user has signed in.
+   */
+  startTraining(): void {
+    this.authService.getCurrentUser().then(user => {
+      if (!user || (this.training && this.userId === user.uid)) {
+        return;
+      }
+
+      this.stopTraining();
+      this.userId = user.uid;
+      this.training = this.transactionService.getTransactions().subscribe({
+        next: transactions => this.update(transactions),
+        error: (err) => console.error('Error training category suggestions:', err)
+      });
+    });
+  }
+
+  /**
+   * Brings the model up to date with the given transactions. Only
+   * transactions that are new, changed or gone are learned or unlearned.
+   *
+   * @param transactions - All current transactions of the user.
+   */
+  update(transactions: TransactionEntry[]): void {
+    const current = new Set<string>();
+    transactions.forEach(transaction => {
+      if (!transaction.documentNumber || !transaction.category) {
+        return;
+      }
+      current.add(transaction.documentNumber);
+
+      const tokens = this.tokenize(transaction.description);
+      const previous = this.learned.get(transaction.documentNumber);
+      if (previous && previous.category === transaction.category && previous.tokens.join(' ') === tokens.join(' ')) {
+        return; // Unchanged
+      }
+      if (previous) {
+        this.count(previous, -1);
+      }
+      const entry = { category: transaction.category, tokens };
+      this.count(entry, 1);
+      this.learned.set(transaction.documentNumber, entry);
+    });
+
+    // Forget deleted transactions
+    Array.from(this.learned.keys())
+      .filter(documentNumber => !current.has(documentNumber))
+      .forEach(documentNumber => {
+        this.count(this.learned.get(documentNumber)!, -1);
+        this.learned.delete(documentNumber);
+      });
+  }
+
+  /**
+   * Returns the most likely categories for a description. The last word is
+   * taken as still being typed and completed to the most frequent known word.
+   *
+   * @param description - The description typed by the user.
+   * @param categories - Optional: The categories that may be suggested.
+   * @returns Up to three categories with their confidence, most likely first.
+   */
+  suggest(description: string, categories?: string[]): CategorySuggestion[] {
+    const words = this.tokenize(description);
+    const tokens = words
+      .map((token, index) => index === words.length - 1 ? this.complete(token) : token)
+      .filter(token => this.vocabulary.has(token));
+    const total = this.learned.size;
+    if (!tokens.length || !total) {
+      return []; // Nothing to go by
+    }
+
+    // Log probability of each category given the words, with Laplace smoothing
+    const scores = Array.from(this.documentCounts.entries())
+      .filter(([category]) => !categories || categories.includes(category))
+      .map(([category, documents]) => {
+        const counts = this.tokenCounts.get(category);
+        const denominator = (this.tokenTotals.get(category) || 0) + this.vocabulary.size;
+        const score = tokens.reduce((sum, token) => sum + Math.log(((counts?.get(token) || 0) + 1) / denominator),
+          Math.log(documents / total));
+        return { category, score };
+      });
+    if (!scores.length) {
+      return [];
+    }
+
+    // Convert the log probabilities into probabilities that add up to one
+    const max = Math.max(...scores.map(s => s.score));
+    const weights = scores.map(s => ({ category: s.category, weight: Math.exp(s.score - max) }));
+    const sum = weights.reduce((result, w) => result + w.weight, 0);
+
+    return weights
+      .map(w => ({ category: w.category, confidence: w.weight / sum }))
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, SUGGESTION_COUNT);
+  }
+
+  /**
+   * Splits a description into lower-case words, ignoring numbers and single characters.
+   */
+  private tokenize(description: string | undefined): string[] {
+    return (description || '')
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(token => token.length > 1 && !/^\d+$/.test(token));
+  }
+
+  /**
+   * Returns the most frequent known word starting with a word, or the word itself if it is known or nothing matches.
+   */
+  private complete(token: string): string {
+    if (this.vocabulary.has(token)) {
+      return token;
+    }
+
+    let best = token;
+    let bestCount = 0;
+    this.vocabulary.forEach((count, word) => {
+      if (count > bestCount && word.startsWith(token)) {
+        best = word;
+        bestCount = count;
+      }
+    });
+    return best;
+  }
+
+  /**
+   * Adds (1) or removes (-1) a learned transaction to or from the counts.
+   */
+  private count(entry: LearnedTransaction, sign: 1 | -1): void {
+    this.increment(this.documentCounts, entry.category, sign);
+    if (!this.tokenCounts.has(entry.category)) {
+      this.tokenCounts.set(entry.category, new Map());
+    }
+    entry.tokens.forEach(token => {
+      this.increment(this.tokenCounts.get(entry.category)!, token, sign);
+      this.increment(this.tokenTotals, entry.category, sign);
+      this.increment(this.vocabulary, token, sign);
+    });
+    if (!this.documentCounts.has(entry.category)) {
+      this.tokenCounts.delete(entry.category); // No transactions left in the category
+    }
+  }
+
+  /**
+   * Changes a count, removing it when it drops to zero.
+   */
+  private increment(counts: Map<string, number>, key: string, delta: number): void {
+    const value = (counts.get(key) || 0) + delta;
+    if (value > 0) {
+      counts.set(key, value);
+    } else {
+      counts.delete(key);
+    }
+  }
+
+  /**
+   * Stops training and forgets everything learned.
+   */
+  private stopTraining(): void {
+    this.training?.unsubscribe();
+    this.training = undefined;
+    this.userId = undefined;
+    this.reset();
+  }
+
+  /**
+   * Forgets everything learned.
+   */
+  private reset(): void {
+    this.learned.clear();
+    this.documentCounts.clear();
+    this.tokenCounts.clear();
+    this.tokenTotals.clear();
+    this.vocabulary.clear();
+  }
+}
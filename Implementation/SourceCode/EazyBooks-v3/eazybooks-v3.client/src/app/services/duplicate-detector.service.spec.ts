@@ -0,0 +1,79 @@
+import { TestBed } from '@angular/core/testing';
+
+import { DuplicateDetectorService } from './duplicate-detector.service';
+import { Receipt } from '../receipt.model';
+import { TransactionEntry } from '../transaction-entry.model';
+
+describe('DuplicateDetectorService', () => {
+  let service: DuplicateDetectorService;
+
+  const transaction = (documentNumber: string, description: string, gross = 45.9, date = '2024-01-02T10:00:00') =>
+    new TransactionEntry(documentNumber, date, gross, gross, description, '', 'expense', 0);
+  const receipt = (hash: string): Receipt => ({
+    path: `receipts/${hash}`, fileName: `${hash}.pdf`, size: 1, contentType: 'application/pdf', hash, uploadedAtInMillis: 0
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(DuplicateDetectorService);
+  });
+
+  it('should ignore case, punctuation and spacing when comparing descriptions', () => {
+    expect(service.similarity('SPAR Filiale 123', 'Spar-Filiale 123')).toBe(1);
+    expect(service.similarity('Wien Energie', 'Lastschrift Wien Energie')).toBe(0.9);
+    expect(service.similarity('Rechnung Wien Energie', 'Wien Energie Rechnung')).toBeCloseTo(0.94, 2);
+  });
+
+  it('should only report descriptions above the similarity threshold', () => {
+    const stored = [
+      transaction('2024-0001', 'Wien Energie Gas 01/2024'), // Similarity 0.75
+      transaction('2024-0002', 'Stadtwerke Graz Strom') // Similarity 0.3
+    ];
+
+    expect(service.findDuplicates(transaction('', 'Wien Energie Strom 01/2024'), stored)).toEqual([stored[0]]);
+    expect(service.findDuplicates(transaction('', 'Wien Energie Strom'), [stored[1]])).toEqual([]);
+  });
+
+  it('should order the suspected duplicates by similarity', () => {
+    const stored = [transaction('2024-0001', 'Wien Energie Gas 01/2024'), transaction('2024-0002', 'Wien Energie Strom 01/2024')];
+    expect(service.findDuplicates(transaction('', 'Wien Energie Strom 01/2024'), stored)).toEqual([stored[1], stored[0]]);
+  });
+
+  it('should require the same day, type and gross amount', () => {
+    const candidate = transaction('', 'Wien Energie');
+    const income = transaction('2024-0003', 'Wien Energie');
+    income.incomeExpenses = 'income';
+
+    expect(service.findDuplicates(candidate, [transaction('2024-0001', 'Wien Energie', 45.91)])).toEqual([]);
+    expect(service.findDuplicates(candidate, [transaction('2024-0002', 'Wien Energie', 45.9, '2024-01-03T10:00:00')])).toEqual([]);
+    expect(service.findDuplicates(candidate, [income])).toEqual([]);
+    expect(service.findDuplicates(candidate, [transaction('2024-0004', 'Wien Energie', 45.9, '2024-01-02T18:30:00')]).length).toBe(1);
+  });
+
+  it('should not report a transaction as duplicate of itself', () => {
+    const stored = transaction('2024-0001', 'Wien Energie');
+    expect(service.findDuplicates(stored, [stored, { ...stored } as TransactionEntry])).toEqual([]);
+  });
+
+  it('should merge a new transaction into the stored one', () => {
+    const existing = transaction('2024-0001', 'Wien Energie');
+    existing.category = 'Energie';
+    existing.attachments = [receipt('a')];
+    const incoming = transaction('', 'Strom Jänner');
+    incoming.category = 'Sonstiges';
+    incoming.attachments = [receipt('a'), receipt('b')];
+
+    const merged = service.merge(existing, incoming);
+
+    expect(merged.documentNumber).toBe('2024-0001');
+    expect(merged.description).toBe('Wien Energie | Strom Jänner');
+    expect(merged.category).toBe('Energie');
+    expect(merged.attachments!.map(attachment => attachment.hash)).toEqual(['a', 'b']);
+    expect(existing.description).toBe('Wien Energie');
+  });
+
+  it('should not append a description that is already contained', () => {
+    const merged = service.merge(transaction('2024-0001', 'Lastschrift Wien Energie'), transaction('', 'wien energie'));
+    expect(merged.description).toBe('Lastschrift Wien Energie');
+  });
+});
@@ -0,0 +1,118 @@
+import { Injectable } from '@angular/core';
+import { TransactionEntry } from '../transaction-entry.model';
+
+/**
+ * Possible ways of resolving a suspected duplicate:
+ * 'skip' drops the new entry, 'merge' enriches the existing transaction
+ * with the new data and 'keep' saves both.
+ */
+export type DuplicateAction = 'skip' | 'merge' | 'keep';
+
+/**
+ * DuplicateDetectorService finds existing transactions that are likely the
+ * same booking as a new one, e.g. when an overlapping statement period is
+ * imported again. Transactions match when they are booked on the same day,
+ * with the same type and gross amount and a similar description.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DuplicateDetectorService {
+
+  /** Minimum description similarity (0-1) for two transactions to be considered duplicates. */
+  private readonly similarityThreshold = 0.6;
+
+  constructor() { }
+
+  /**
+   * Finds existing transactions that are suspected duplicates of the candidate.
+   *
+   * @param candidate - The new transaction.
+   * @param existing - The transactions already stored for the user, or the
+   *   other new transactions of the same import.
+   * @returns The suspected duplicates, most similar first.
+   */
+  findDuplicates(candidate: TransactionEntry, existing: TransactionEntry[]): TransactionEntry[] {
+    const candidateDay = this.dayKey(candidate);
+
+    return existing
+      .filter(transaction =>
+        transaction !== candidate &&
+        !(candidate.documentNumber && transaction.documentNumber === candidate.documentNumber) &&
+        transaction.incomeExpenses === candidate.incomeExpenses &&
+        Math.abs(transaction.gross - candidate.gross) < 0.005 &&
+        this.dayKey(transaction) === candidateDay)
+      .map(transaction => ({ transaction, score: this.similarity(transaction.description, candidate.description) }))
+      .filter(match => match.score >= this.similarityThreshold)
+      .sort((a, b) => b.score - a.score)
+      .map(match => match.transaction);
+  }
+
+  /**
+   * Compares two descriptions using the Dice coefficient of their character bigrams,
+   * so that differences in case, punctuation and spacing are ignored.
+   *
+   * @param a - The first description.
+   * @param b - The second description.
+   * @returns The similarity between 0 (different) and 1 (equal).
+   */
+  similarity(a: string, b: string): number {
+    const normalize = (text: string) => (text || '').toLowerCase().replace(/[^a-z0-9äöüß]/g, '');
+    const first = normalize(a);
+    const second = normalize(b);
+
+    if (first === second) return 1;
+    if (first.length < 2 || second.length < 2) return 0;
+    if (first.includes(second) || second.includes(first)) return 0.9;
+
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < first.length - 1; i++) {
+      const bigram = first.substring(i, i + 2);
+      bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+    }
+
+    let matches = 0;
+    for (let i = 0; i < second.length - 1; i++) {
+      const bigram = second.substring(i, i + 2);
+      const count = bigrams.get(bigram) || 0;
+      if (count > 0) {
+        bigrams.set(bigram, count - 1);
+        matches++;
+      }
+    }
+
+    return (2 * matches) / (first.length + second.length - 2);
+  }
+
+  /**
+   * Merges a new transaction into an existing one. The existing transaction keeps
+   * its document number and values; empty fields are filled from the new one and
+   * a differing description is appended.
+   *
+   * @param existing - The transaction already stored.
+   * @param incoming - The new transaction.
+   * @returns The merged transaction to be saved with updateTransaction.
+   */
+  merge(existing: TransactionEntry, incoming: TransactionEntry): TransactionEntry {
+    const merged = { ...existing } as TransactionEntry;
+    const description = (incoming.description || '').trim();
+
+    if (description && !(existing.description || '').toLowerCase().includes(description.toLowerCase())) {
+      merged.description = existing.description ? `${existing.description} | ${description}` : description;
+    }
+    merged.category = existing.category || incoming.category;
+    merged.documentName = existing.documentName || incoming.documentName;
+    merged.attachments = [...(existing.attachments || []),
+      ...(incoming.attachments || []).filter(attachment => !existing.attachments?.some(a => a.hash === attachment.hash))];
+
+    return merged;
+  }
+
+  /**
+   * Returns the local calendar day of a transaction as comparable key.
+   */
+  private dayKey(transaction: TransactionEntry): string {
+    const date = new Date(transaction.date || transaction.dateInMillis);
+    return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+  }
+}
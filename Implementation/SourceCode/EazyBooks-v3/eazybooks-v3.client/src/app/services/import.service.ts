@@ -0,0 +1,342 @@
+import { Injectable } from '@angular/core';
+import { AngularFirestore } from '@angular/fire/compat/firestore';
+import { Observable, from } from 'rxjs';
+import { concatMap, switchMap, map } from 'rxjs/operators';
+import { AuthService } from './auth-service.service';
+import firebase from 'firebase/compat/app';
+import { ImportProfile } from '../import-profile.model';
+import { TransactionEntry } from '../transaction-entry.model';
+import { StatementLine } from '../statement-line.model';
+import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
+import { VatService, DEFAULT_VAT_RATE } from './vat.service';
+import { periodOf } from './period-lock.service';
+
+/**
+ * ImportService parses bank statement exports into transactions,
+ * manages the per-user column mapping profiles in Firestore and
+ * writes imported transactions through the TransactionServiceComponent.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ImportService {
+
+  private collectionName = 'importProfiles';
+
+  constructor(
+    private firestore: AngularFirestore,
+    private authService: AuthService,
+    private transactionService: TransactionServiceComponent,
+    private vatService: VatService
+  ) { }
+
+  /**
+   * Guesses the delimiter of a CSV file by counting candidates in the first line.
+   *
+   * @param text - The content of the CSV file.
+   * @returns The most frequent delimiter (";" if none is found).
+   */
+  detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/)[0] || '';
+    const candidates = [';', ',', '\t', '|'];
+    let best = ';';
+    let bestCount = 0;
+    candidates.forEach(candidate => {
+      const count = firstLine.split(candidate).length - 1;
+      if (count > bestCount) {
+        best = candidate;
+        bestCount = count;
+      }
+    });
+    return best;
+  }
+
+  /**
+   * Parses CSV content into rows of cells. Quoted cells may contain
+   * delimiters, line breaks and escaped quotes ("").
+   *
+   * @param text - The content of the CSV file.
+   * @param delimiter - The column delimiter.
+   * @returns The parsed rows without empty lines.
+   */
+  parseCsv(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(cell.trim());
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(cell.trim());
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell || row.length) {
+      row.push(cell.trim());
+      rows.push(row);
+    }
+
+    return rows.filter(r => r.some(c => c !== ''));
+  }
+
+  /**
+   * Converts parsed CSV rows into statement lines using the given column mapping.
+   * Rows whose date or amount cannot be parsed are skipped; use findInvalidRows
+   * to report them before importing.
+   *
+   * @param rows - The parsed CSV rows.
+   * @param profile - The column mapping to apply.
+   * @returns The statement lines with signed amounts.
+   */
+  mapRows(rows: string[][], profile: ImportProfile): StatementLine[] {
+    const dataRows = profile.hasHeader ? rows.slice(1) : rows;
+    return dataRows
+      .map(row => this.mapRow(row, profile))
+      .filter((line): line is StatementLine => line !== null);
+  }
+
+  /**
+   * Returns the rows whose date or amount cannot be parsed with the given column mapping.
+   *
+   * @param rows - The parsed CSV rows.
+   * @param profile - The column mapping to apply.
+   * @returns The numbers of the invalid rows in the file, starting at 1.
+   */
+  findInvalidRows(rows: string[][], profile: ImportProfile): number[] {
+    const offset = profile.hasHeader ? 2 : 1;
+    const dataRows = profile.hasHeader ? rows.slice(1) : rows;
+    return dataRows
+      .map((row, index) => this.mapRow(row, profile) ? 0 : index + offset)
+      .filter(rowNumber => rowNumber > 0);
+  }
+
+  /**
+   * Checks the transactions of an import before anything is written, so that
+   * an import either passes completely or not at all.
+   *
+   * @param transactions - The transactions to import.
+   * @param lockedPeriods - The closed months ("YYYY-MM").
+   * @returns The translation key of the problem per index of an invalid transaction.
+   */
+  validateTransactions(transactions: TransactionEntry[], lockedPeriods: string[]): { [index: number]: string } {
+    const errors: { [index: number]: string } = {};
+    transactions.forEach((transaction, index) => {
+      if (!transaction.date || isNaN(new Date(transaction.date).getTime())) {
+        errors[index] = 'IMPORT_INVALID_DATE';
+      } else if (!(transaction.gross > 0) || !isFinite(transaction.gross)) {
+        errors[index] = 'IMPORT_INVALID_AMOUNT';
+      } else if (!transaction.description || !transaction.incomeExpenses) {
+        errors[index] = 'IMPORT_MISSING_FIELDS';
+      } else if (lockedPeriods.includes(periodOf(transaction.date))) {
+        errors[index] = 'PERIOD_LOCKED';
+      }
+    });
+    return errors;
+  }
+
+  /**
+   * Converts a CSV row into a statement line.
+   * Returns null if its date or amount cannot be parsed.
+   */
+  private mapRow(row: string[], profile: ImportProfile): StatementLine | null {
+    const date = this.parseDate(row[profile.dateColumn], profile.dateFormat);
+    let amount = this.parseAmount(row[profile.grossColumn], profile.decimalSeparator);
+
+    if (!date || isNaN(amount) || amount === 0) {
+      return null;
+    }
+
+    if (profile.signMode === 'column' && profile.typeColumn != null) {
+      const indicator = (row[profile.typeColumn] || '').trim().toLowerCase();
+      const isIncome = indicator === (profile.incomeValue || '').trim().toLowerCase();
+      amount = isIncome ? Math.abs(amount) : -Math.abs(amount);
+    }
+
+    return {
+      date,
+      amount,
+      description: (row[profile.descriptionColumn] || '').trim()
+    };
+  }
+
+  /**
+   * Converts statement lines into transactions. The sign of the amount
+   * decides whether a line is booked as income or expense.
+   *
+   * @param lines - The statement lines to convert.
+   * @param category - The category assigned to all transactions.
+   * @param vatRates - The VAT rates of incomes and expenses, as statements carry no VAT rate.
+   * @returns The transactions ready to be imported.
+   */
+  toTransactions(lines: StatementLine[], category: string, vatRates: { income?: number, expense?: number } = {}): TransactionEntry[] {
+    return lines.map(line => {
+      const incomeExpenses = line.amount < 0 ? 'expense' : 'income';
+      const gross = Math.abs(line.amount);
+
+      const transaction = new TransactionEntry(
+        '',
+        line.date.toISOString(),
+        gross,
+        gross,
+        line.description || line.counterpartyName || '-',
+        category,
+        incomeExpenses,
+        line.date.getTime()
+      );
+      if (line.counterpartyIban) {
+        transaction.counterpartyIban = line.counterpartyIban; // Lets categorization rules match on the counterparty
+      }
+      transaction.vatRate = (incomeExpenses === 'income' ? vatRates.income : vatRates.expense) ?? DEFAULT_VAT_RATE;
+      this.vatService.calculateFromGross(transaction);
+      return transaction;
+    });
+  }
+
+  /**
+   * Parses a date string in the given format.
+   *
+   * @param value - The date string from the CSV file.
+   * @param format - One of 'DD.MM.YYYY', 'YYYY-MM-DD' or 'MM/DD/YYYY'.
+   * @returns The parsed date or null if the value is invalid.
+   */
+  parseDate(value: string | undefined, format: string): Date | null {
+    if (!value) return null;
+    const parts = value.trim().split(/[.\-\/ ]/).map(part => parseInt(part, 10));
+    if (parts.length < 3 || parts.some(part => isNaN(part))) return null;
+
+    let day: number;
+    let month: number;
+    let year: number;
+
+    if (format === 'YYYY-MM-DD') {
+      [year, month, day] = parts;
+    } else if (format === 'MM/DD/YYYY') {
+      [month, day, year] = parts;
+    } else {
+      [day, month, year] = parts;
+    }
+
+    if (year < 100) {
+      year += 2000;
+    }
+
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+      return null;
+    }
+    return date;
+  }
+
+  /**
+   * Parses an amount string with the given decimal separator.
+   * Currency symbols, spaces and thousand separators are removed.
+   *
+   * @param value - The amount string from the CSV file.
+   * @param decimalSeparator - The decimal separator, either ',' or '.'.
+   * @returns The parsed amount or NaN if the value is invalid.
+   */
+  parseAmount(value: string | undefined, decimalSeparator: ',' | '.'): number {
+    if (!value) return NaN;
+    let cleaned = value.replace(/[^0-9,.\-+]/g, '');
+    if (decimalSeparator === ',') {
+      cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+    } else {
+      cleaned = cleaned.replace(/,/g, '');
+    }
+    // Some banks put the minus sign at the end, e.g. "12,50-"
+    if (cleaned.endsWith('-')) {
+      cleaned = '-' + cleaned.slice(0, -1);
+    }
+    return parseFloat(cleaned);
+  }
+
+  /**
+   * Imports the given transactions one after another, so that each of them
+   * receives its own document number from the transaction counter. If one of
+   * them fails, the transactions emitted before stay stored.
+   *
+   * @param transactions - The transactions to import.
+   * @returns An observable that emits each transaction once it is stored.
+   */
+  importTransactions(transactions: TransactionEntry[]): Observable<TransactionEntry> {
+    return from(transactions).pipe(
+      concatMap(transaction => this.transactionService.addTransaction(transaction).pipe(map(() => transaction)))
+    );
+  }
+
+  /**
+   * Retrieves all import profiles of the current user.
+   *
+   * @returns An observable that emits an array of ImportProfile objects.
+   */
+  getProfiles(): Observable<ImportProfile[]> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (user) {
+          return this.firestore.collection<ImportProfile>(this.collectionName, ref =>
+            ref.where('userId', '==', user.uid)
+          ).valueChanges();
+        } else {
+          return new Observable<ImportProfile[]>(); // Return an empty observable if no user is logged in
+        }
+      })
+    );
+  }
+
+  /**
+   * Saves an import profile for the current user. Existing profiles are overwritten.
+   *
+   * @param profile - The import profile to save.
+   * @returns An observable that completes when the profile is saved.
+   */
+  saveProfile(profile: ImportProfile): Observable<void> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (user) {
+          const id = profile.id || this.firestore.createId();
+          return from(this.firestore.collection(this.collectionName).doc(id).set({
+            ...profile,
+            id: id,
+            userId: user.uid
+          }));
+        } else {
+          throw new Error('User not authenticated');
+        }
+      })
+    );
+  }
+
+  /**
+   * Deletes an import profile.
+   *
+   * @param id - The ID of the profile to delete.
+   * @returns An observable that completes when the profile is deleted.
+   */
+  deleteProfile(id: string): Observable<void> {
+    return from(this.firestore.collection(this.collectionName).doc(id).delete());
+  }
+}
@@ -0,0 +1,52 @@
+import { TestBed } from '@angular/core/testing';
+
+import { IncomeStatementService, E1aMapping } from './income-statement.service';
+import { SettingsService } from './settings.service';
+import { TransactionEntry } from '../transaction-entry.model';
+
+describe('IncomeStatementService', () => {
+  let service: IncomeStatementService;
+
+  const transaction = (incomeExpenses: string, net: number, category: string, reverseCharge = false) => {
+    const entry = new TransactionEntry('', '2024-05-01', net, net, '', category, incomeExpenses, 0);
+    entry.reverseCharge = reverseCharge;
+    return entry;
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [{ provide: SettingsService, useValue: {} }]
+    });
+    service = TestBed.inject(IncomeStatementService);
+  });
+
+  it('should book a transaction on the line mapped to its category', () => {
+    const mapping: E1aMapping = { 'Miete': '9180' };
+    expect(service.lineOf(transaction('expense', 500, 'Miete'), mapping)).toBe('9180');
+  });
+
+  it('should ignore a mapped line of the other side', () => {
+    const mapping: E1aMapping = { 'Miete': '9180' };
+    expect(service.lineOf(transaction('income', 500, 'Miete'), mapping)).toBe('9040');
+  });
+
+  it('should book unmapped transactions on the default lines', () => {
+    expect(service.lineOf(transaction('income', 100, 'Honorar'), {})).toBe('9040');
+    expect(service.lineOf(transaction('income', 100, 'Honorar', true), {})).toBe('9050');
+    expect(service.lineOf(transaction('expense', 100, 'Sonstiges'), {})).toBe('9230');
+  });
+
+  it('should sum the net amounts per line and calculate the profit', () => {
+    const statement = service.calculate([
+      transaction('income', 1000.10, 'Honorar'),
+      transaction('income', 200.20, 'Honorar'),
+      transaction('expense', 300.05, 'Miete'),
+      transaction('expense', 50, 'Sonstiges')
+    ], { 'Miete': '9180' });
+
+    expect(statement.lines).toEqual({ '9040': 1200.3, '9180': 300.05, '9230': 50 });
+    expect(statement.totalIncome).toBe(1200.3);
+    expect(statement.totalExpenses).toBe(350.05);
+    expect(statement.profit).toBe(850.25);
+  });
+});
@@ -0,0 +1,131 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { TransactionEntry } from '../transaction-entry.model';
+import { SettingsService } from './settings.service';
+
+/** A line of the E1a income statement. */
+export interface E1aLine {
+  kennzahl: string; // Kennzahl of the E1a form
+  label: string; // Translation key of the label
+  side: 'income' | 'expense'; // Whether the line sums income or expenses
+}
+
+/** Lines of the E1a (Einnahmen-Ausgaben-Rechnung) in the order of the form. */
+export const E1A_LINES: E1aLine[] = [
+  { kennzahl: '9040', label: 'E1A_9040', side: 'income' },
+  { kennzahl: '9050', label: 'E1A_9050', side: 'income' },
+  { kennzahl: '9060', label: 'E1A_9060', side: 'income' },
+  { kennzahl: '9090', label: 'E1A_9090', side: 'income' },
+  { kennzahl: '9100', label: 'E1A_9100', side: 'expense' },
+  { kennzahl: '9110', label: 'E1A_9110', side: 'expense' },
+  { kennzahl: '9120', label: 'E1A_9120', side: 'expense' },
+  { kennzahl: '9130', label: 'E1A_9130', side: 'expense' },
+  { kennzahl: '9150', label: 'E1A_9150', side: 'expense' },
+  { kennzahl: '9160', label: 'E1A_9160', side: 'expense' },
+  { kennzahl: '9170', label: 'E1A_9170', side: 'expense' },
+  { kennzahl: '9180', label: 'E1A_9180', side: 'expense' },
+  { kennzahl: '9190', label: 'E1A_9190', side: 'expense' },
+  { kennzahl: '9200', label: 'E1A_9200', side: 'expense' },
+  { kennzahl: '9220', label: 'E1A_9220', side: 'expense' },
+  { kennzahl: '9225', label: 'E1A_9225', side: 'expense' },
+  { kennzahl: '9230', label: 'E1A_9230', side: 'expense' }
+];
+
+/** Mapping of category names to E1a Kennzahlen. */
+export type E1aMapping = { [category: string]: string };
+
+/** The E1a amounts of one year, keyed by Kennzahl, with the totals. */
+export interface E1aStatement {
+  lines: { [kennzahl: string]: number };
+  totalIncome: number;
+  totalExpenses: number;
+  profit: number;
+}
+
+/**
+ * IncomeStatementService creates the annual cash-basis income statement
+ * (Einnahmen-Ausgaben-Rechnung) with the lines of the E1a form. Transactions
+ * are assigned to a line by the category-to-line mapping stored in the user
+ * settings; unmapped income counts as revenue (9040), or 9050 for reverse
+ * charge, and unmapped expenses as other expenses (9230).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class IncomeStatementService {
+
+  constructor(private settingsService: SettingsService) { }
+
+  /**
+   * Retrieves the category-to-line mapping of the current user.
+   *
+   * @returns An observable that emits the mapping.
+   */
+  getMapping(): Observable<E1aMapping> {
+    return this.settingsService.getSettings().pipe(
+      map((settings: any) => settings?.e1aMapping || {})
+    );
+  }
+
+  /**
+   * Saves the category-to-line mapping of the current user.
+   *
+   * @param mapping - The mapping of category names to Kennzahlen.
+   * @returns An observable that completes when the mapping is saved.
+   */
+  saveMapping(mapping: E1aMapping): Observable<void> {
+    return this.settingsService.saveSettings({ e1aMapping: mapping });
+  }
+
+  /**
+   * Returns the E1a line a transaction is booked on. A mapped line of the
+   * other side (e.g. a refund in an expense category) is ignored.
+   *
+   * @param transaction - The transaction.
+   * @param mapping - The category-to-line mapping.
+   * @returns The Kennzahl of the line.
+   */
+  lineOf(transaction: TransactionEntry, mapping: E1aMapping): string {
+    const side = transaction.incomeExpenses === 'income' ? 'income' : 'expense';
+    const mapped = E1A_LINES.find(line => line.kennzahl === mapping[transaction.category] && line.side === side);
+    if (mapped) {
+      return mapped.kennzahl;
+    }
+    if (side === 'income') {
+      return transaction.reverseCharge ? '9050' : '9040';
+    }
+    return '9230';
+  }
+
+  /**
+   * Sums the net amounts of the transactions of a year per E1a line.
+   *
+   * @param transactions - The transactions of the year.
+   * @param mapping - The category-to-line mapping.
+   * @returns The amounts per line with total income, total expenses and profit.
+   */
+  calculate(transactions: TransactionEntry[], mapping: E1aMapping): E1aStatement {
+    const lines: { [kennzahl: string]: number } = {};
+    transactions.forEach(transaction => {
+      const kennzahl = this.lineOf(transaction, mapping);
+      lines[kennzahl] = (lines[kennzahl] || 0) + (Number(transaction.net ?? transaction.gross) || 0);
+    });
+
+    const sum = (side: E1aLine['side']) => E1A_LINES
+      .filter(line => line.side === side)
+      .reduce((total, line) => total + (lines[line.kennzahl] || 0), 0);
+    const totalIncome = this.round(sum('income'));
+    const totalExpenses = this.round(sum('expense'));
+    Object.keys(lines).forEach(kennzahl => lines[kennzahl] = this.round(lines[kennzahl]));
+
+    return { lines, totalIncome, totalExpenses, profit: this.round(totalIncome - totalExpenses) };
+  }
+
+  /**
+   * Rounds an amount to cents.
+   */
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,36 @@
+import { TestBed } from '@angular/core/testing';
+
+import { IncomeTaxService } from './income-tax.service';
+
+describe('IncomeTaxService', () => {
+  let service: IncomeTaxService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(IncomeTaxService);
+  });
+
+  it('should use the latest tariff starting in or before the year', () => {
+    expect(service.tariffFor(2024).year).toBe(2024);
+    expect(service.tariffFor(2030).year).toBe(2026);
+    expect(service.tariffFor(2020).year).toBe(2022);
+  });
+
+  it('should apply the progressive brackets of the year', () => {
+    expect(service.calculateTax(12816, 2024)).toBe(0);
+    expect(service.calculateTax(20818, 2024)).toBe(1600.4);
+    expect(service.calculateTax(50000, 2024)).toBe(11903.7);
+  });
+
+  it('should grant the basic profit allowance up to its limit', () => {
+    expect(service.profitAllowance(10000, 2024)).toBe(1500);
+    expect(service.profitAllowance(50000, 2024)).toBe(4950);
+    expect(service.profitAllowance(50000, 2023)).toBe(4500);
+    expect(service.profitAllowance(-1000, 2024)).toBe(0);
+  });
+
+  it('should project the profit of the current year to its end', () => {
+    expect(service.projectToYearEnd(10000, 2024, new Date(2024, 6, 2))).toBe(20000);
+    expect(service.projectToYearEnd(10000, 2023, new Date(2024, 6, 2))).toBe(10000);
+  });
+});
@@ -0,0 +1,167 @@
+import { Injectable } from '@angular/core';
+
+/** The income tax tariff and profit allowance of one year. */
+export interface IncomeTaxTariff {
+  year: number; // First year the tariff applies to
+  brackets: { upTo: number, rate: number }[]; // Upper limit and rate (percent) of each bracket, the last one open-ended
+  profitAllowanceRate: number; // Rate (percent) of the basic profit allowance (Grundfreibetrag)
+  profitAllowanceLimit: number; // Profit up to which the basic profit allowance is granted
+}
+
+/** The estimated income tax of a year. */
+export interface IncomeTaxEstimate {
+  profit: number; // Profit (actual or projected to year end)
+  profitAllowance: number; // Basic profit allowance deducted from the profit
+  taxableIncome: number; // Profit after deducting the allowance
+  tax: number; // Estimated income tax
+}
+
+/**
+ * Austrian income tax tariffs (§ 33 EStG), one entry per year in which the
+ * brackets changed. A year uses the latest tariff that starts in or before it,
+ * so past years keep being calculated with the tariff that applied then.
+ */
+export const INCOME_TAX_TARIFFS: IncomeTaxTariff[] = [
+  {
+    year: 2022,
+    brackets: [
+      { upTo: 11000, rate: 0 }, { upTo: 18000, rate: 20 }, { upTo: 31000, rate: 32.5 }, { upTo: 60000, rate: 42 },
+      { upTo: 90000, rate: 48 }, { upTo: 1000000, rate: 50 }, { upTo: Infinity, rate: 55 }
+    ],
+    profitAllowanceRate: 15,
+    profitAllowanceLimit: 30000
+  },
+  {
+    year: 2023,
+    brackets: [
+      { upTo: 11693, rate: 0 }, { upTo: 19134, rate: 20 }, { upTo: 32075, rate: 30 }, { upTo: 62080, rate: 41 },
+      { upTo: 93120, rate: 48 }, { upTo: 1000000, rate: 50 }, { upTo: Infinity, rate: 55 }
+    ],
+    profitAllowanceRate: 15,
+    profitAllowanceLimit: 30000
+  },
+  {
+    year: 2024,
+    brackets: [
+      { upTo: 12816, rate: 0 }, { upTo: 20818, rate: 20 }, { upTo: 34513, rate: 30 }, { upTo: 66612, rate: 40 },
+      { upTo: 99266, rate: 48 }, { upTo: 1000000, rate: 50 }, { upTo: Infinity, rate: 55 }
+    ],
+    profitAllowanceRate: 15,
+    profitAllowanceLimit: 33000
+  },
+  {
+    year: 2025,
+    brackets: [
+      { upTo: 13308, rate: 0 }, { upTo: 21617, rate: 20 }, { upTo: 35836, rate: 30 }, { upTo: 69166, rate: 40 },
+      { upTo: 103072, rate: 48 }, { upTo: 1000000, rate: 50 }, { upTo: Infinity, rate: 55 }
+    ],
+    profitAllowanceRate: 15,
+    profitAllowanceLimit: 33000
+  },
+  {
+    year: 2026,
+    brackets: [
+      { upTo: 13539, rate: 0 }, { upTo: 21992, rate: 20 }, { upTo: 36458, rate: 30 }, { upTo: 70365, rate: 40 },
+      { upTo: 104859, rate: 48 }, { upTo: 1000000, rate: 50 }, { upTo: Infinity, rate: 55 }
+    ],
+    profitAllowanceRate: 15,
+    profitAllowanceLimit: 33000
+  }
+];
+
+/**
+ * IncomeTaxService estimates the income tax of a sole proprietor from the
+ * profit of a year. The basic profit allowance is deducted before the
+ * progressive tariff of the year is applied. Other allowances, special
+ * expenses and social security contributions are not considered.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class IncomeTaxService {
+
+  constructor() { }
+
+  /**
+   * Returns the tariff that applies to a year.
+   *
+   * @param year - The tax year.
+   * @returns The latest tariff starting in or before the year (the earliest one for older years).
+   */
+  tariffFor(year: number): IncomeTaxTariff {
+    const tariffs = INCOME_TAX_TARIFFS.filter(tariff => tariff.year <= year);
+    return tariffs.length ? tariffs[tariffs.length - 1] : INCOME_TAX_TARIFFS[0];
+  }
+
+  /**
+   * Calculates the basic profit allowance (Grundfreibetrag of the Gewinnfreibetrag).
+   *
+   * @param profit - The profit of the year.
+   * @param year - The tax year.
+   * @returns The allowance deducted from the profit.
+   */
+  profitAllowance(profit: number, year: number): number {
+    const tariff = this.tariffFor(year);
+    return this.round(Math.max(0, Math.min(profit, tariff.profitAllowanceLimit)) * tariff.profitAllowanceRate / 100);
+  }
+
+  /**
+   * Applies the progressive tariff of a year to a taxable income.
+   *
+   * @param taxableIncome - The taxable income.
+   * @param year - The tax year.
+   * @returns The income tax.
+   */
+  calculateTax(taxableIncome: number, year: number): number {
+    let tax = 0;
+    let lowerLimit = 0;
+    for (const bracket of this.tariffFor(year).brackets) {
+      if (taxableIncome <= lowerLimit) {
+        break;
+      }
+      tax += (Math.min(taxableIncome, bracket.upTo) - lowerLimit) * bracket.rate / 100;
+      lowerLimit = bracket.upTo;
+    }
+    return this.round(tax);
+  }
+
+  /**
+   * Projects a year-to-date profit linearly to the end of the year.
+   * Past years are not projected; for future years nothing is projected yet.
+   *
+   * @param yearToDateProfit - The profit booked so far in the year.
+   * @param year - The year of the profit.
+   * @param today - The reference date (defaults to now).
+   * @returns The projected profit of the whole year.
+   */
+  projectToYearEnd(yearToDateProfit: number, year: number, today: Date = new Date()): number {
+    if (year !== today.getFullYear()) {
+      return yearToDateProfit;
+    }
+    const start = new Date(year, 0, 1).getTime();
+    const end = new Date(year + 1, 0, 1).getTime();
+    const elapsed = Math.max(today.getTime() - start, 24 * 60 * 60 * 1000); // At least one day, to avoid extreme projections on January 1st
+    return this.round(yearToDateProfit * (end - start) / elapsed);
+  }
+
+  /**
+   * Estimates the income tax of a year from its year-to-date profit.
+   *
+   * @param yearToDateProfit - The profit booked so far in the year.
+   * @param year - The tax year.
+   * @returns The estimate with projected profit, allowance, taxable income and tax.
+   */
+  estimate(yearToDateProfit: number, year: number): IncomeTaxEstimate {
+    const profit = this.projectToYearEnd(yearToDateProfit, year);
+    const profitAllowance = this.profitAllowance(profit, year);
+    const taxableIncome = Math.max(0, this.round(profit - profitAllowance));
+    return { profit, profitAllowance, taxableIncome, tax: this.calculateTax(taxableIncome, year) };
+  }
+
+  /**
+   * Rounds an amount to cents.
+   */
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
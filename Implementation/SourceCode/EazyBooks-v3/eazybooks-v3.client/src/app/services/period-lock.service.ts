@@ -0,0 +1,163 @@
+import { Injectable } from '@angular/core';
+import { AngularFirestore } from '@angular/fire/compat/firestore';
+import { Observable, from, throwError } from 'rxjs';
+import { map, switchMap } from 'rxjs/operators';
+import { AuthService } from './auth-service.service';
+import firebase from 'firebase/compat/app';
+import { PeriodLockLogEntry } from '../period-lock.model';
+
+/**
+ * Returns the month of a date as period key in the format "YYYY-MM".
+ *
+ * @param date - The date as ISO string, milliseconds or Date.
+ * @returns The period key, e.g. "2025-03".
+ */
+export function periodOf(date: string | number | Date): string {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${(d.getMonth() + 1).toString().padStart(2, '0')}`;
+}
+
+/**
+ * PeriodLockService manages closed periods. Once the VAT return of a month is
+ * filed, the month is locked and bookings dated inside it can no longer be
+ * added, changed or deleted. Locking and unlocking is recorded in a log.
+ *
+ * The locked months are stored in the document "periodLocks/{userId}".
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PeriodLockService {
+
+  constructor(private firestore: AngularFirestore, private authService: AuthService) { }
+
+  /**
+   * Retrieves the locked months of the current user.
+   *
+   * @returns An observable that emits the locked periods ("YYYY-MM").
+   */
+  getLockedPeriods(): Observable<string[]> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (user) {
+          return this.firestore.collection<{ periods?: string[] }>('periodLocks').doc(user.uid).valueChanges().pipe(
+            map(doc => doc?.periods || [])
+          );
+        } else {
+          return new Observable<string[]>(); // Return an empty observable if no user is logged in
+        }
+      })
+    );
+  }
+
+  /**
+   * Retrieves the log of locked and unlocked periods, most recent entry first.
+   *
+   * @returns An observable that emits the log entries.
+   */
+  getLog(): Observable<PeriodLockLogEntry[]> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (user) {
+          return this.firestore.collection('periodLocks').doc(user.uid)
+            .collection<PeriodLockLogEntry>('log', ref => ref.orderBy('changedAtInMillis', 'desc'))
+            .valueChanges({ idField: 'id' });
+        } else {
+          return new Observable<PeriodLockLogEntry[]>(); // Return an empty observable if no user is logged in
+        }
+      })
+    );
+  }
+
+  /**
+   * Checks whether a date lies inside one of the locked periods.
+   *
+   * @param lockedPeriods - The locked periods ("YYYY-MM").
+   * @param date - The date to check.
+   * @returns True if the month of the date is locked.
+   */
+  isLocked(lockedPeriods: string[], date: string | number | Date | undefined): boolean {
+    return !!date && lockedPeriods.includes(periodOf(date));
+  }
+
+  /**
+   * Locks the given months.
+   *
+   * @param periods - The periods to lock ("YYYY-MM"), e.g. all months of a fiscal year.
+   * @returns An observable that completes when the periods are locked.
+   */
+  lock(periods: string[]): Observable<void> {
+    return this.writeLocks('lock', periods, '');
+  }
+
+  /**
+   * Unlocks a month again. Unlocking has to be justified and is logged.
+   *
+   * @param period - The period to unlock ("YYYY-MM").
+   * @param reason - The reason for unlocking.
+   * @returns An observable that completes when the period is unlocked.
+   */
+  unlock(period: string, reason: string): Observable<void> {
+    if (!reason.trim()) {
+      return throwError(() => new Error('A reason is required to unlock a period'));
+    }
+    return this.writeLocks('unlock', [period], reason.trim());
+  }
+
+  /**
+   * Throws if one of the dates lies in a locked period. Used inside Firestore
+   * transactions, so that the check and the write happen atomically.
+   *
+   * @param dbTransaction - The running Firestore transaction.
+   * @param userId - The ID of the current user.
+   * @param dates - The dates of the bookings to write.
+   */
+  async assertUnlocked(dbTransaction: firebase.firestore.Transaction, userId: string, dates: (string | number | undefined)[]): Promise<void> {
+    const locksDoc = await dbTransaction.get(this.firestore.firestore.collection('periodLocks').doc(userId));
+    this.checkDates(locksDoc.data()?.['periods'] || [], dates);
+  }
+
+  /**
+   * Throws an error naming the first locked period among the dates.
+   */
+  private checkDates(lockedPeriods: string[], dates: (string | number | undefined)[]): void {
+    const locked = dates.find(date => this.isLocked(lockedPeriods, date));
+    if (locked) {
+      throw new Error(`Period ${periodOf(locked)} is locked`);
+    }
+  }
+
+  /**
+   * Adds or removes periods and writes the log entries in one batch.
+   */
+  private writeLocks(action: PeriodLockLogEntry['action'], periods: string[], reason: string): Observable<void> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (!user) {
+          throw new Error('No user logged in');
+        }
+
+        const locksDocRef = this.firestore.firestore.collection('periodLocks').doc(user.uid);
+        const batch = this.firestore.firestore.batch();
+        batch.set(locksDocRef, {
+          periods: action === 'lock'
+            ? firebase.firestore.FieldValue.arrayUnion(...periods)
+            : firebase.firestore.FieldValue.arrayRemove(...periods)
+        }, { merge: true });
+
+        periods.forEach(period => {
+          const entry: PeriodLockLogEntry = {
+            action,
+            period,
+            reason,
+            changedBy: user.email || user.uid,
+            changedAtInMillis: Date.now()
+          };
+          batch.set(locksDocRef.collection('log').doc(), entry);
+        });
+
+        return from(batch.commit());
+      })
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { TestBed } from '@angular/core/testing';
+
+import { ReceiptImageService, Point } from './receipt-image.service';
+
+describe('ReceiptImageService', () => {
+  let service: ReceiptImageService;
+
+  const project = (h: number[], p: Point): Point => {
+    const w = h[6] * p.x + h[7] * p.y + 1;
+    return { x: (h[0] * p.x + h[1] * p.y + h[2]) / w, y: (h[3] * p.x + h[4] * p.y + h[5]) / w };
+  };
+  const expectPoint = (actual: Point, expected: Point) => {
+    expect(actual.x).toBeCloseTo(expected.x, 6);
+    expect(actual.y).toBeCloseTo(expected.y, 6);
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ReceiptImageService);
+  });
+
+  it('should map the corners of the page onto the corners of the receipt', () => {
+    const page: Point[] = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 150 }, { x: 0, y: 150 }];
+    const receipt: Point[] = [{ x: 12, y: 30 }, { x: 210, y: 18 }, { x: 240, y: 330 }, { x: 25, y: 300 }];
+    const h = service['homography'](page, receipt);
+
+    page.forEach((corner, i) => expectPoint(project(h, corner), receipt[i]));
+  });
+
+  it('should be the identity for equal quadrilaterals', () => {
+    const corners: Point[] = [{ x: 0, y: 0 }, { x: 80, y: 0 }, { x: 80, y: 60 }, { x: 0, y: 60 }];
+    const h = service['homography'](corners, corners);
+
+    [1, 0, 0, 0, 1, 0, 0, 0].forEach((value, i) => expect(h[i]).toBeCloseTo(value, 9));
+    expectPoint(project(h, { x: 33, y: 17 }), { x: 33, y: 17 });
+  });
+
+  it('should separate a dark background from a bright receipt', () => {
+    const gray = new Uint8ClampedArray(100);
+    gray.fill(40, 0, 60);
+    gray.fill(200, 60);
+    const threshold = service['otsuThreshold'](gray);
+
+    expect(threshold).toBeGreaterThanOrEqual(40);
+    expect(threshold).toBeLessThan(200);
+  });
+
+  it('should place the threshold between two noisy classes', () => {
+    const gray = Uint8ClampedArray.from({ length: 200 }, (_, i) => i < 120 ? 50 + i % 20 : 180 + i % 30);
+    const threshold = service['otsuThreshold'](gray);
+
+    expect(threshold).toBeGreaterThanOrEqual(69);
+    expect(threshold).toBeLessThan(180);
+  });
+
+  it('should find the largest connected bright area', () => {
+    const gray = Uint8ClampedArray.from([
+      255, 0, 0, 0,
+      0, 0, 255, 255,
+      0, 0, 255, 255,
+      255, 0, 0, 0
+    ]);
+
+    expect(service['largestRegion'](gray, 4, 4, 128).sort((a, b) => a - b)).toEqual([6, 7, 10, 11]);
+  });
+});
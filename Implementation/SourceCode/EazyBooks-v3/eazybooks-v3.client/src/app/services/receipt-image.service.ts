@@ -0,0 +1,368 @@
+import { Injectable } from '@angular/core';
+import { Observable, from } from 'rxjs';
+import jsPDF from 'jspdf';
+
+/** Size in bytes that a photographed receipt page should not exceed after compression. */
+export const TARGET_RECEIPT_SIZE = 300 * 1024;
+
+/** Longest side in pixels of a corrected receipt page. */
+const MAX_PAGE_SIDE = 2000;
+
+/** Longest side in pixels of the downscaled image used to find the receipt. */
+const DETECTION_SIDE = 320;
+
+/** Minimum share of the image the detected receipt has to cover, otherwise the whole image is used. */
+const MIN_RECEIPT_AREA = 0.2;
+
+/** A point in image coordinates. */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * ReceiptImageService prepares photographed receipts for upload. It finds the
+ * outline of the receipt in a photo, straightens it by a perspective correction,
+ * converts it to grayscale and compresses it to a target size. Several pages can
+ * be combined into a single PDF.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ReceiptImageService {
+
+  /**
+   * Finds the corners of the receipt in a photo. The receipt is taken to be the
+   * largest bright area, separated from the background by an Otsu threshold.
+   *
+   * @param image - The photo.
+   * @returns The corners in the order top left, top right, bottom right, bottom left.
+   */
+  detectCorners(image: HTMLCanvasElement): Point[] {
+    const scale = Math.min(1, DETECTION_SIDE / Math.max(image.width, image.height));
+    const width = Math.max(1, Math.round(image.width * scale));
+    const height = Math.max(1, Math.round(image.height * scale));
+    const small = document.createElement('canvas');
+    small.width = width;
+    small.height = height;
+    const context = small.getContext('2d')!;
+    context.filter = 'blur(2px)'; // Smooth out text and paper texture
+    context.drawImage(image, 0, 0, width, height);
+
+    const gray = this.toGray(context.getImageData(0, 0, width, height));
+    const threshold = this.otsuThreshold(gray);
+    const region = this.largestRegion(gray, width, height, threshold);
+
+    const fullImage = this.imageCorners(image.width, image.height);
+    if (region.length < width * height * MIN_RECEIPT_AREA) {
+      return fullImage;
+    }
+
+    // The corners are the region pixels lying furthest in the diagonal directions
+    const corners = [
+      this.extreme(region, width, p => -p.x - p.y),
+      this.extreme(region, width, p => p.x - p.y),
+      this.extreme(region, width, p => p.x + p.y),
+      this.extreme(region, width, p => p.y - p.x)
+    ].map(p => ({ x: p.x / scale, y: p.y / scale }));
+
+    return this.polygonArea(corners) < image.width * image.height * MIN_RECEIPT_AREA ? fullImage : corners;
+  }
+
+  /**
+   * Straightens the receipt inside the given corners and converts it to grayscale.
+   *
+   * @param image - The photo.
+   * @param corners - The corners of the receipt (top left, top right, bottom right, bottom left).
+   * @returns A canvas with the corrected receipt.
+   */
+  correct(image: HTMLCanvasElement, corners: Point[]): HTMLCanvasElement {
+    const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+    let width = Math.max(this.distance(topLeft, topRight), this.distance(bottomLeft, bottomRight));
+    let height = Math.max(this.distance(topLeft, bottomLeft), this.distance(topRight, bottomRight));
+    const scale = Math.min(1, MAX_PAGE_SIDE / Math.max(width, height));
+    width = Math.max(1, Math.round(width * scale));
+    height = Math.max(1, Math.round(height * scale));
+
+    const sourceData = image.getContext('2d')!.getImageData(0, 0, image.width, image.height);
+    const source = this.toGray(sourceData);
+    const homography = this.homography(this.imageCorners(width, height), corners);
+
+    const result = document.createElement('canvas');
+    result.width = width;
+    result.height = height;
+    const context = result.getContext('2d')!;
+    const output = context.createImageData(width, height);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const w = homography[6] * x + homography[7] * y + 1;
+        const sx = (homography[0] * x + homography[1] * y + homography[2]) / w;
+        const sy = (homography[3] * x + homography[4] * y + homography[5]) / w;
+        const value = this.sample(source, image.width, image.height, sx, sy);
+        const i = (y * width + x) * 4;
+        output.data[i] = output.data[i + 1] = output.data[i + 2] = value;
+        output.data[i + 3] = 255;
+      }
+    }
+
+    context.putImageData(output, 0, 0);
+    return result;
+  }
+
+  /**
+   * Encodes an image as JPEG, lowering the quality and then the resolution
+   * until it fits into the target size.
+   *
+   * @param image - The image to compress.
+   * @param targetSize - The maximum size in bytes.
+   * @returns An observable that emits the compressed image.
+   */
+  compress(image: HTMLCanvasElement, targetSize: number = TARGET_RECEIPT_SIZE): Observable<Blob> {
+    return from(this.compressCanvas(image, targetSize));
+  }
+
+  /**
+   * Combines several JPEG pages into a single PDF with A4 pages.
+   *
+   * @param pages - The pages as JPEG images.
+   * @returns An observable that emits the PDF.
+   */
+  combineToPdf(pages: Blob[]): Observable<Blob> {
+    return from(this.createPdf(pages));
+  }
+
+  /**
+   * Lowers quality and resolution until the JPEG fits into the target size.
+   */
+  private async compressCanvas(image: HTMLCanvasElement, targetSize: number): Promise<Blob> {
+    let canvas = image;
+    for (;;) {
+      for (const quality of [0.8, 0.7, 0.6, 0.5]) {
+        const blob = await this.toBlob(canvas, quality);
+        if (blob.size <= targetSize || canvas.width < 400) {
+          return blob;
+        }
+      }
+      canvas = this.resize(canvas, 0.8);
+    }
+  }
+
+  /**
+   * Adds each page scaled to fit on an A4 page.
+   */
+  private async createPdf(pages: Blob[]): Promise<Blob> {
+    const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+
+    for (let i = 0; i < pages.length; i++) {
+      const bitmap = await createImageBitmap(pages[i]);
+      const scale = Math.min(pageWidth / bitmap.width, pageHeight / bitmap.height);
+      const width = bitmap.width * scale;
+      const height = bitmap.height * scale;
+      bitmap.close();
+
+      if (i > 0) {
+        pdf.addPage();
+      }
+      const data = new Uint8Array(await pages[i].arrayBuffer());
+      pdf.addImage(data, 'JPEG', (pageWidth - width) / 2, (pageHeight - height) / 2, width, height);
+    }
+
+    return pdf.output('blob');
+  }
+
+  /**
+   * Encodes a canvas as JPEG.
+   */
+  private toBlob(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
+    return new Promise((resolve, reject) => canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error('Could not encode image')), 'image/jpeg', quality));
+  }
+
+  /**
+   * Returns a scaled copy of a canvas.
+   */
+  private resize(canvas: HTMLCanvasElement, factor: number): HTMLCanvasElement {
+    const result = document.createElement('canvas');
+    result.width = Math.round(canvas.width * factor);
+    result.height = Math.round(canvas.height * factor);
+    result.getContext('2d')!.drawImage(canvas, 0, 0, result.width, result.height);
+    return result;
+  }
+
+  /**
+   * Converts RGBA pixels to luminance values.
+   */
+  private toGray(image: ImageData): Uint8ClampedArray {
+    const gray = new Uint8ClampedArray(image.width * image.height);
+    for (let i = 0; i < gray.length; i++) {
+      gray[i] = 0.299 * image.data[i * 4] + 0.587 * image.data[i * 4 + 1] + 0.114 * image.data[i * 4 + 2];
+    }
+    return gray;
+  }
+
+  /**
+   * Returns the threshold that best separates the pixels into a dark and a bright class.
+   */
+  private otsuThreshold(gray: Uint8ClampedArray): number {
+    const histogram = new Array(256).fill(0);
+    gray.forEach(value => histogram[value]++);
+
+    const total = gray.length;
+    const sum = histogram.reduce((result, count, value) => result + count * value, 0);
+    let backgroundSum = 0;
+    let backgroundCount = 0;
+    let best = 0;
+    let threshold = 128;
+
+    for (let value = 0; value < 256; value++) {
+      backgroundCount += histogram[value];
+      if (!backgroundCount || backgroundCount === total) {
+        continue;
+      }
+      backgroundSum += value * histogram[value];
+      const backgroundMean = backgroundSum / backgroundCount;
+      const foregroundMean = (sum - backgroundSum) / (total - backgroundCount);
+      const variance = backgroundCount * (total - backgroundCount) * (backgroundMean - foregroundMean) ** 2;
+      if (variance > best) {
+        best = variance;
+        threshold = value;
+      }
+    }
+    return threshold;
+  }
+
+  /**
+   * Returns the pixel indexes of the largest connected area brighter than the threshold.
+   */
+  private largestRegion(gray: Uint8ClampedArray, width: number, height: number, threshold: number): number[] {
+    const visited = new Uint8Array(gray.length);
+    let largest: number[] = [];
+
+    for (let start = 0; start < gray.length; start++) {
+      if (visited[start] || gray[start] <= threshold) {
+        continue;
+      }
+
+      const region: number[] = [];
+      const stack = [start];
+      visited[start] = 1;
+      while (stack.length) {
+        const index = stack.pop()!;
+        region.push(index);
+        const x = index % width;
+        const neighbours = [
+          x > 0 ? index - 1 : -1,
+          x < width - 1 ? index + 1 : -1,
+          index - width,
+          index + width
+        ];
+        for (const neighbour of neighbours) {
+          if (neighbour >= 0 && neighbour < width * height && !visited[neighbour] && gray[neighbour] > threshold) {
+            visited[neighbour] = 1;
+            stack.push(neighbour);
+          }
+        }
+      }
+
+      if (region.length > largest.length) {
+        largest = region;
+      }
+    }
+    return largest;
+  }
+
+  /**
+   * Returns the pixel of a region with the largest score.
+   */
+  private extreme(region: number[], width: number, score: (point: Point) => number): Point {
+    let best: Point = { x: 0, y: 0 };
+    let bestScore = -Infinity;
+    for (const index of region) {
+      const point = { x: index % width, y: Math.floor(index / width) };
+      const value = score(point);
+      if (value > bestScore) {
+        bestScore = value;
+        best = point;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Returns the corners of an image of the given size.
+   */
+  private imageCorners(width: number, height: number): Point[] {
+    return [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  }
+
+  /**
+   * Returns the area of a polygon (shoelace formula).
+   */
+  private polygonArea(points: Point[]): number {
+    return Math.abs(points.reduce((area, p, i) => {
+      const next = points[(i + 1) % points.length];
+      return area + p.x * next.y - next.x * p.y;
+    }, 0)) / 2;
+  }
+
+  /**
+   * Returns the distance between two points.
+   */
+  private distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  }
+
+  /**
+   * Returns the coefficients of the projective transformation mapping the four
+   * source points onto the four target points.
+   */
+  private homography(from: Point[], to: Point[]): number[] {
+    const matrix: number[][] = [];
+    from.forEach((p, i) => {
+      const q = to[i];
+      matrix.push([p.x, p.y, 1, 0, 0, 0, -p.x * q.x, -p.y * q.x, q.x]);
+      matrix.push([0, 0, 0, p.x, p.y, 1, -p.x * q.y, -p.y * q.y, q.y]);
+    });
+
+    // Gaussian elimination with partial pivoting
+    for (let column = 0; column < 8; column++) {
+      let pivot = column;
+      for (let row = column + 1; row < 8; row++) {
+        if (Math.abs(matrix[row][column]) > Math.abs(matrix[pivot][column])) {
+          pivot = row;
+        }
+      }
+      [matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]];
+
+      for (let row = 0; row < 8; row++) {
+        if (row !== column && matrix[column][column] !== 0) {
+          const factor = matrix[row][column] / matrix[column][column];
+          for (let k = column; k < 9; k++) {
+            matrix[row][k] -= factor * matrix[column][k];
+          }
+        }
+      }
+    }
+
+    return matrix.map((row, i) => row[8] / row[i]);
+  }
+
+  /**
+   * Returns the bilinearly interpolated gray value at a position of an image.
+   */
+  private sample(gray: Uint8ClampedArray, width: number, height: number, x: number, y: number): number {
+    const x0 = Math.min(width - 1, Math.max(0, Math.floor(x)));
+    const y0 = Math.min(height - 1, Math.max(0, Math.floor(y)));
+    const x1 = Math.min(width - 1, x0 + 1);
+    const y1 = Math.min(height - 1, y0 + 1);
+    const dx = Math.min(1, Math.max(0, x - x0));
+    const dy = Math.min(1, Math.max(0, y - y0));
+
+    const top = gray[y0 * width + x0] * (1 - dx) + gray[y0 * width + x1] * dx;
+    const bottom = gray[y1 * width + x0] * (1 - dx) + gray[y1 * width + x1] * dx;
+    return top * (1 - dy) + bottom * dy;
+  }
+}
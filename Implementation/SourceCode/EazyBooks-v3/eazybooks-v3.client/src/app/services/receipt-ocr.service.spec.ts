@@ -0,0 +1,54 @@
+import { TestBed } from '@angular/core/testing';
+
+import { ReceiptOcrService } from './receipt-ocr.service';
+
+describe('ReceiptOcrService', () => {
+  let service: ReceiptOcrService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ReceiptOcrService);
+  });
+
+  it('should recognize the values of a receipt', () => {
+    const result = service.parse([
+      'Bäckerei Huber GmbH',
+      'Hauptstraße 12, 1010 Wien',
+      '14.03.2024 08:15',
+      'Semmel 2x 0,45 0,90',
+      'Kaffee 3,20',
+      'Summe EUR 4,10',
+      'davon 10% MwSt 0,37'
+    ].join('\n'));
+
+    expect(result.merchant).toBe('Bäckerei Huber GmbH');
+    expect(result.total).toBe(4.1);
+    expect(result.date).toEqual(new Date(2024, 2, 14));
+    expect(result.vatRate).toBe(10);
+  });
+
+  it('should take the amount of the last total line', () => {
+    const result = service.parse('Zwischensumme 10,00\nRabatt 2,00\nGesamt 8,00\nGegeben 20,00');
+    expect(result.total).toBe(8);
+  });
+
+  it('should take the largest amount without a total keyword', () => {
+    expect(service.parse('Artikel 1.234,56\nArtikel 99.90').total).toBe(1234.56);
+    expect(service.parse("Artikel 1'500.00").total).toBe(1500);
+  });
+
+  it('should ignore dates when looking for amounts', () => {
+    expect(service.parse('Total 12.03.24').total).toBeUndefined();
+  });
+
+  it('should recognize short and ISO dates and skip invalid ones', () => {
+    expect(service.parse('31/12/23').date).toEqual(new Date(2023, 11, 31));
+    expect(service.parse('2024-02-29').date).toEqual(new Date(2024, 1, 29));
+    expect(service.parse('31.02.2024 01.03.2024').date).toEqual(new Date(2024, 2, 1));
+  });
+
+  it('should only accept Austrian VAT rates', () => {
+    expect(service.parse('MwSt 19% 20,00 %').vatRate).toBe(20);
+    expect(service.parse('Rabatt 50%').vatRate).toBeUndefined();
+  });
+});
@@ -0,0 +1,158 @@
+import { Injectable } from '@angular/core';
+import { Observable, from } from 'rxjs';
+import type { Worker } from 'tesseract.js';
+import { VAT_RATES } from './vat.service';
+
+/** Location of the OCR worker, engine and German/English models bundled with the app. */
+const TESSERACT_PATHS = {
+  workerPath: 'assets/tesseract/worker.min.js',
+  corePath: 'assets/tesseract/core',
+  langPath: 'assets/tesseract/lang'
+};
+
+/** Location of the PDF.js worker bundled with the app. */
+const PDF_WORKER_PATH = 'assets/pdfjs/pdf.worker.min.mjs';
+
+/** Words that introduce the total of a receipt. */
+const TOTAL_KEYWORDS = /(summe|gesamt|total|endbetrag|rechnungsbetrag|zahlbetrag|zu zahlen|amount due)/i;
+
+/** Amounts like "1.234,56", "1234.56" or "12,50". */
+const AMOUNT_PATTERN = /(\d{1,3}(?:[.']\d{3})+|\d+)[,.](\d{2})(?!\d)/g;
+
+/** Dates like "31.12.2025", "31/12/25" or "2025-12-31". */
+const DATE_PATTERN = /(\d{1,2})[./-](\d{1,2})[./-](\d{4}|\d{2})(?!\d)|(\d{4})-(\d{2})-(\d{2})/g;
+
+/** The values recognized on a receipt. Fields that could not be recognized are missing. */
+export interface ReceiptOcrResult {
+  total?: number; // Gross total
+  date?: Date; // Date of the receipt
+  vatRate?: number; // VAT rate in percent
+  merchant?: string; // Name of the merchant, usually the first line
+  text: string; // The recognized text
+}
+
+/**
+ * ReceiptOcrService reads receipts on the device. PDFs with a text layer
+ * are read directly, images and scanned PDFs are recognized with
+ * tesseract.js using the German and English models shipped with the app,
+ * so no network access is needed. The libraries are loaded on first use.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ReceiptOcrService {
+
+  private worker?: Promise<Worker>; // OCR worker, created on first use
+
+  /**
+   * Recognizes the total, date, VAT rate and merchant of a receipt.
+   *
+   * @param file - The receipt image or PDF.
+   * @returns An observable that emits the recognized values.
+   */
+  recognize(file: Blob): Observable<ReceiptOcrResult> {
+    return from(this.readText(file).then(text => this.parse(text)));
+  }
+
+  /**
+   * Extracts the values of a receipt from its text.
+   *
+   * @param text - The text of the receipt.
+   * @returns The recognized values.
+   */
+  parse(text: string): ReceiptOcrResult {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length);
+    return {
+      total: this.findTotal(lines),
+      date: this.findDate(text),
+      vatRate: this.findVatRate(text),
+      merchant: lines.find(line => /[a-zäöüß]{3,}/i.test(line) && !/\d{3,}/.test(line)),
+      text
+    };
+  }
+
+  /**
+   * Reads the text of an image or PDF.
+   */
+  private async readText(file: Blob): Promise<string> {
+    if (file.type !== 'application/pdf') {
+      return this.ocr(file);
+    }
+
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = PDF_WORKER_PATH;
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    const page = await pdf.getPage(1);
+
+    // PDFs created by invoicing software contain the text, scanned ones have to be recognized
+    const content = await page.getTextContent();
+    const text = content.items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '').join('');
+    if (text.replace(/\s/g, '').length > 20) {
+      return text;
+    }
+
+    const viewport = page.getViewport({ scale: 2 });
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+    return this.ocr(canvas);
+  }
+
+  /**
+   * Recognizes the text of an image with tesseract.js.
+   */
+  private async ocr(image: Blob | HTMLCanvasElement): Promise<string> {
+    if (!this.worker) {
+      this.worker = import('tesseract.js').then(tesseract =>
+        tesseract.createWorker(['deu', 'eng'], tesseract.OEM.LSTM_ONLY, { ...TESSERACT_PATHS, workerBlobURL: false }));
+    }
+    const result = await (await this.worker).recognize(image);
+    return result.data.text;
+  }
+
+  /**
+   * Returns the amount on the last line with a total keyword, or else the largest amount.
+   */
+  private findTotal(lines: string[]): number | undefined {
+    const amountsOf = (line: string) => Array.from(line.replace(DATE_PATTERN, '').matchAll(AMOUNT_PATTERN))
+      .map(match => parseFloat(`${match[1].replace(/[.']/g, '')}.${match[2]}`));
+
+    const totalLine = [...lines].reverse().find(line => TOTAL_KEYWORDS.test(line) && amountsOf(line).length);
+    if (totalLine) {
+      return amountsOf(totalLine).pop();
+    }
+
+    const amounts = lines.flatMap(amountsOf);
+    return amounts.length ? Math.max(...amounts) : undefined;
+  }
+
+  /**
+   * Returns the first valid date in the formats "31.12.2025", "31/12/25" or "2025-12-31".
+   */
+  private findDate(text: string): Date | undefined {
+    for (const match of text.matchAll(DATE_PATTERN)) {
+      const [year, month, day] = match[4]
+        ? [+match[4], +match[5], +match[6]]
+        : [match[3].length === 2 ? 2000 + +match[3] : +match[3], +match[2], +match[1]];
+      const date = new Date(year, month - 1, day);
+      if (date.getMonth() === month - 1 && date.getDate() === day && year > 2000 && date.getTime() <= Date.now()) {
+        return date;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the first Austrian VAT rate given in percent.
+   */
+  private findVatRate(text: string): number | undefined {
+    for (const match of text.matchAll(/(\d{1,2})(?:[,.]0{1,2})?\s?%/g)) {
+      const rate = +match[1];
+      if (rate > 0 && VAT_RATES.includes(rate)) {
+        return rate;
+      }
+    }
+    return undefined;
+  }
+}
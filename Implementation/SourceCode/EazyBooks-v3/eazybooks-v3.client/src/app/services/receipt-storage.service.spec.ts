@@ -0,0 +1,49 @@
+import { TestBed } from '@angular/core/testing';
+import { AngularFirestore } from '@angular/fire/compat/firestore';
+import { AngularFireStorage } from '@angular/fire/compat/storage';
+
+import { ReceiptStorageService, MAX_RECEIPT_SIZE } from './receipt-storage.service';
+import { AuthService } from './auth-service.service';
+import { TransactionHistoryService } from './transaction-history.service';
+
+describe('ReceiptStorageService', () => {
+  let service: ReceiptStorageService;
+  let storage: jasmine.SpyObj<AngularFireStorage>;
+
+  const uploadError = (file: Blob) => {
+    let error: Error | undefined;
+    service.upload(file, 'receipt').subscribe({ error: err => error = err });
+    return error;
+  };
+
+  beforeEach(() => {
+    storage = jasmine.createSpyObj<AngularFireStorage>('AngularFireStorage', ['upload']);
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: AngularFireStorage, useValue: storage },
+        { provide: AngularFirestore, useValue: {} },
+        { provide: AuthService, useValue: { getCurrentUser: () => Promise.resolve({ uid: 'user' }) } },
+        { provide: TransactionHistoryService, useValue: {} }
+      ]
+    });
+    service = TestBed.inject(ReceiptStorageService);
+  });
+
+  it('should not send files other than images and PDFs', () => {
+    expect(uploadError(new Blob(['text'], { type: 'text/plain' }))).toBeDefined();
+    expect(uploadError(new Blob(['data']))).toBeDefined();
+    expect(storage.upload).not.toHaveBeenCalled();
+  });
+
+  it('should not send files of 10 MB and more', () => {
+    const file = new Blob([new Uint8Array(MAX_RECEIPT_SIZE)], { type: 'application/pdf' });
+
+    expect(uploadError(file)).toBeDefined();
+    expect(storage.upload).not.toHaveBeenCalled();
+  });
+
+  it('should accept images and PDFs below the limit', () => {
+    expect(uploadError(new Blob(['%PDF'], { type: 'application/pdf' }))).toBeUndefined();
+    expect(uploadError(new Blob(['jpeg'], { type: 'image/jpeg' }))).toBeUndefined();
+  });
+});
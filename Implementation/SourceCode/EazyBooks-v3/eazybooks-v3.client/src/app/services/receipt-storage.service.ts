@@ -0,0 +1,186 @@
+import { Injectable } from '@angular/core';
+import { AngularFirestore } from '@angular/fire/compat/firestore';
+import { AngularFireStorage } from '@angular/fire/compat/storage';
+import { Observable, from, of, concat, throwError } from 'rxjs';
+import { catchError, concatMap, map, reduce, switchMap } from 'rxjs/operators';
+import { AuthService } from './auth-service.service';
+import firebase from 'firebase/compat/app';
+import { Receipt } from '../receipt.model';
+import { TransactionHistoryService } from './transaction-history.service';
+
+/** Kinds of attachments with their translation keys. */
+export const ATTACHMENT_KINDS = [
+  { value: 'invoice', label: 'ATTACHMENT_INVOICE' },
+  { value: 'deliveryNote', label: 'ATTACHMENT_DELIVERY_NOTE' },
+  { value: 'paymentConfirmation', label: 'ATTACHMENT_PAYMENT_CONFIRMATION' },
+  { value: 'other', label: 'ATTACHMENT_OTHER' }
+];
+
+/** Largest receipt accepted by the storage rules, in bytes. */
+export const MAX_RECEIPT_SIZE = 10 * 1024 * 1024;
+
+/** MIME types of receipts accepted by the storage rules. */
+const RECEIPT_CONTENT_TYPES = /^(image\/.*|application\/pdf)$/;
+
+/**
+ * ReceiptStorageService uploads receipts to Firebase Storage. Files are
+ * stored under the SHA-256 hash of their content, so uploading the same
+ * receipt twice does not store it twice. Receipts saved by earlier versions
+ * as base64 data URLs in the "documentName" field are migrated into the
+ * attachments once; the settings of the user
+ * record that the migration is done and which receipts could not be migrated.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ReceiptStorageService {
+
+  constructor(
+    private storage: AngularFireStorage,
+    private firestore: AngularFirestore,
+    private authService: AuthService,
+    private historyService: TransactionHistoryService
+  ) { }
+
+  /**
+   * Uploads a receipt of the current user. Files rejected by the storage
+   * rules (other than images and PDFs, or of 10 MB and more) are not sent.
+   *
+   * @param file - The receipt file.
+   * @param fileName - The name of the file (defaults to the name of a File).
+   * @param kind - The kind of the document.
+   * @returns An observable that emits the reference of the stored receipt.
+   */
+  upload(file: Blob, fileName: string = (file as File).name || 'receipt', kind: string = 'invoice'): Observable<Receipt> {
+    if (!RECEIPT_CONTENT_TYPES.test(file.type) || file.size >= MAX_RECEIPT_SIZE) {
+      return throwError(() => new Error(`Receipt ${fileName} is not an image or PDF of less than 10 MB`));
+    }
+
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (!user) {
+          throw new Error('User not authenticated');
+        }
+
+        return from(this.hash(file)).pipe(
+          switchMap(hash => {
+            const receipt: Receipt = {
+              path: `receipts/${user.uid}/${hash}`,
+              fileName,
+              size: file.size,
+              contentType: file.type || 'application/octet-stream',
+              hash,
+              kind,
+              uploadedAtInMillis: Date.now()
+            };
+            return from(this.storage.upload(receipt.path, file, {
+              contentType: receipt.contentType,
+              contentDisposition: `inline; filename="${encodeURIComponent(fileName)}"`
+            })).pipe(map(() => receipt));
+          })
+        );
+      })
+    );
+  }
+
+  /**
+   * Retrieves a URL for viewing or downloading a stored receipt.
+   *
+   * @param receipt - The reference of the receipt.
+   * @returns An observable that emits the download URL.
+   */
+  getDownloadUrl(receipt: Receipt): Observable<string> {
+    return this.storage.ref(receipt.path).getDownloadURL();
+  }
+
+  /**
+   * Moves the receipts stored as base64 data URLs in transactions and standing
+   * orders of the current user into the attachments.
+   * Runs only until it has gone through all documents once; documents whose
+   * receipt failed are skipped when an interrupted run is continued.
+   *
+   * @returns An observable that emits the number of migrated receipts.
+   */
+  migrateInlineReceipts(): Observable<number> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (!user) {
+          return of(0);
+        }
+
+        const settingsRef = this.firestore.firestore.collection('settings').doc(user.uid);
+        return from(settingsRef.get()).pipe(
+          switchMap(settings => {
+            if (settings.data()?.['inlineReceiptsMigrated']) {
+              return of(0);
+            }
+
+            const failed: string[] = settings.data()?.['receiptMigrationFailures'] || [];
+            const collections = ['transactions', 'standingOrders'].map(collection =>
+              from(this.firestore.firestore.collection(collection).where('userId', '==', user.uid).get())
+            );
+            return concat(...collections).pipe(
+              concatMap(snapshot => {
+                const migrations = snapshot.docs
+                  .filter(doc => !failed.includes(doc.ref.path))
+                  .filter(doc => typeof doc.data()['documentName'] === 'string' && doc.data()['documentName'].startsWith('data:'))
+                  .map(doc => this.migrateDocument(user, settingsRef, doc.ref, doc.data()));
+                return migrations.length ? concat(...migrations) : of(0);
+              }),
+              reduce((sum, count) => sum + count, 0),
+              concatMap(count => from(settingsRef.set({ inlineReceiptsMigrated: true }, { merge: true })).pipe(map(() => count)))
+            );
+          })
+        );
+      })
+    );
+  }
+
+  /**
+   * Uploads the base64 receipt of a document and moves it into the
+   * attachments. For transactions the move is recorded
+   * in the history; it is done in closed periods as well, because the receipt
+   * itself does not change, only where it is stored.
+   * A failing receipt is left as it is and the document is recorded in the
+   * settings, so that it is not uploaded again.
+   */
+  private migrateDocument(user: firebase.User, settingsRef: firebase.firestore.DocumentReference,
+    docRef: firebase.firestore.DocumentReference, data: firebase.firestore.DocumentData): Observable<number> {
+    return from(fetch(data['documentName']).then(response => response.blob())).pipe(
+      switchMap(blob => this.upload(blob, `${data['description'] || 'receipt'}.${this.extensionOf(blob.type)}`)),
+      switchMap(receipt => {
+        const changes = {
+          attachments: [...(data['attachments'] || []), receipt],
+          documentName: ''
+        };
+        const batch = this.firestore.firestore.batch();
+        batch.update(docRef, changes);
+        if (docRef.parent.id === 'transactions') {
+          batch.set(this.historyService.newEntryRef(docRef.id),
+            this.historyService.createEntry(user, 'update', this.historyService.diff(data, changes)));
+        }
+        return from(batch.commit());
+      }),
+      map(() => 1),
+      catchError(error => {
+        console.error(`Error migrating receipt of ${docRef.path}:`, error);
+        return from(settingsRef.set({ receiptMigrationFailures: firebase.firestore.FieldValue.arrayUnion(docRef.path) }, { merge: true })).pipe(map(() => 0));
+      })
+    );
+  }
+
+  /**
+   * Calculates the SHA-256 hash of a file as a hex string.
+   */
+  private async hash(file: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Returns the file extension of a MIME type.
+   */
+  private extensionOf(contentType: string): string {
+    return contentType.split('/')[1]?.split('+')[0] || 'bin';
+  }
+}
@@ -1,6 +1,6 @@
 import { Injectable } from '@angular/core';
 import { Observable, from } from 'rxjs';
-import { switchMap, catchError } from 'rxjs/operators';
+import { switchMap, catchError, map } from 'rxjs/operators';
 import { AngularFirestore } from '@angular/fire/compat/firestore';
 import { AuthService } from './auth-service.service';
 import firebase from 'firebase/compat/app';
@@ -50,6 +50,7 @@ export class ReportService {
               .where('date', '<=', endDate.toISOString())
               .orderBy('date')
           ).valueChanges()).pipe(
+            map(transactions => transactions.filter(transaction => !transaction.deleted)), // Trashed transactions are not reported
             catchError(error => {
               console.error('Error fetching transactions:', error);
               throw new Error('Failed to fetch transactions');
@@ -0,0 +1,62 @@
+import { Injectable } from '@angular/core';
+import { Observable, from, of } from 'rxjs';
+import { SharedDraft } from '../shared-draft.model';
+
+/** IndexedDB database and object store in which the service worker (share-target-sw.js) parks shared content. */
+export const SHARED_DRAFTS_DB = 'eazybooks-shared-drafts';
+export const SHARED_DRAFTS_STORE = 'drafts';
+
+/**
+ * SharedDraftService reads the receipts shared into EazyBooks from other apps.
+ * The service worker stores them in IndexedDB, where they wait until the user
+ * has signed in and a transaction draft has been opened for them.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SharedDraftService {
+
+  /**
+   * Retrieves the parked drafts, oldest first.
+   *
+   * @returns An observable that emits the drafts.
+   */
+  getDrafts(): Observable<SharedDraft[]> {
+    if (!('indexedDB' in window)) {
+      return of([]); // Without IndexedDB nothing can have been shared
+    }
+    return from(this.request<SharedDraft[]>('readonly', store => store.getAll()));
+  }
+
+  /**
+   * Removes a draft once it has been handled.
+   *
+   * @param id - The IndexedDB key of the draft.
+   * @returns An observable that completes when the draft is removed.
+   */
+  deleteDraft(id: number): Observable<void> {
+    return from(this.request<undefined>('readwrite', store => store.delete(id)).then(() => undefined));
+  }
+
+  /**
+   * Runs a request against the object store of the drafts.
+   */
+  private request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const open = indexedDB.open(SHARED_DRAFTS_DB, 1);
+      open.onupgradeneeded = () => open.result.createObjectStore(SHARED_DRAFTS_STORE, { keyPath: 'id', autoIncrement: true });
+      open.onerror = () => reject(open.error);
+      open.onsuccess = () => {
+        const request = run(open.result.transaction(SHARED_DRAFTS_STORE, mode).objectStore(SHARED_DRAFTS_STORE));
+        request.onsuccess = () => {
+          open.result.close();
+          resolve(request.result);
+        };
+        request.onerror = () => {
+          open.result.close();
+          reject(request.error);
+        };
+      };
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+
+import { SmallBusinessService, SmallBusinessStatus } from './small-business.service';
+import { SettingsService } from './settings.service';
+import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
+import { TransactionEntry } from '../transaction-entry.model';
+
+describe('SmallBusinessService', () => {
+  let service: SmallBusinessService;
+  let settings: any;
+  let transactions: TransactionEntry[];
+
+  const transaction = (incomeExpenses: string, gross: number, net: number) =>
+    new TransactionEntry('', '2025-03-01', gross, net, '', '', incomeExpenses, 0);
+
+  const statusOf = (year: number) => {
+    let status: SmallBusinessStatus | undefined;
+    service.getStatus(year).subscribe(value => status = value);
+    return status!;
+  };
+
+  beforeEach(() => {
+    settings = { smallBusiness: true };
+    transactions = [];
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: SettingsService, useValue: { getSettings: () => of(settings) } },
+        { provide: TransactionServiceComponent, useValue: { getTransactionsBetweenDates: () => of(transactions) } }
+      ]
+    });
+    service = TestBed.inject(SmallBusinessService);
+  });
+
+  it('should compare the gross income of the year against the limit', () => {
+    transactions = [
+      transaction('income', 30000, 25000),
+      transaction('income', 20000, 20000),
+      transaction('expense', 12000, 10000)
+    ];
+    const status = statusOf(2025);
+
+    expect(status.revenue).toBe(50000);
+    expect(status.threshold).toBe(55000);
+    expect(status.state).toBe('warning');
+  });
+
+  it('should use the limit and tolerance from the settings', () => {
+    settings = { smallBusiness: false, smallBusinessThreshold: 35000, smallBusinessTolerance: 0 };
+    transactions = [transaction('income', 36000, 30000)];
+    const status = statusOf(2025);
+
+    expect(status.enabled).toBeFalse();
+    expect(status.toleranceLimit).toBe(35000);
+    expect(status.state).toBe('exceeded');
+  });
+
+  it('should distinguish the states at the limit and the tolerance limit', () => {
+    expect(service.evaluate(2025, 49499.99, 55000, 10).state).toBe('ok');
+    expect(service.evaluate(2025, 49500, 55000, 10).state).toBe('warning');
+    expect(service.evaluate(2025, 55000, 55000, 10).state).toBe('warning');
+    expect(service.evaluate(2025, 55000.01, 55000, 10).state).toBe('tolerance');
+    expect(service.evaluate(2025, 60500, 55000, 10).state).toBe('tolerance');
+    expect(service.evaluate(2025, 60500.01, 55000, 10).state).toBe('exceeded');
+  });
+
+  it('should add a new income to the revenue', () => {
+    const status = service.evaluate(2025, 54000, 55000, 10);
+    const after = service.withIncome(status, 1200);
+
+    expect(after.revenue).toBe(55200);
+    expect(after.state).toBe('tolerance');
+    expect(after.year).toBe(2025);
+  });
+});
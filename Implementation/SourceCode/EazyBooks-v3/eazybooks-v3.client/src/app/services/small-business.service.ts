@@ -0,0 +1,103 @@
+import { Injectable } from '@angular/core';
+import { Observable, combineLatest } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { SettingsService } from './settings.service';
+import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
+
+/** Revenue limit of the small-business VAT exemption (Kleinunternehmerregelung) since 2025. */
+export const DEFAULT_SMALL_BUSINESS_THRESHOLD = 55000;
+
+/** Percentage by which the limit may be exceeded without losing the exemption for the rest of the year. */
+export const DEFAULT_SMALL_BUSINESS_TOLERANCE = 10;
+
+/** Share of the limit (percent) from which the user is warned. */
+const WARNING_PERCENT = 90;
+
+/** The revenue of a year compared against the small-business limit. */
+export interface SmallBusinessStatus {
+  enabled: boolean; // Whether the user applies the small-business exemption
+  year: number; // The calendar year
+  revenue: number; // Gross income of the year
+  threshold: number; // Revenue limit
+  tolerance: number; // Tolerance in percent of the limit
+  toleranceLimit: number; // Limit including the tolerance
+  percent: number; // Revenue in percent of the limit
+  state: 'ok' | 'warning' | 'tolerance' | 'exceeded'; // Below 90%, near the limit, within the tolerance or above it
+}
+
+/**
+ * SmallBusinessService monitors the revenue limit of the small-business VAT
+ * exemption. Since 2025 the limit applies to the gross revenue, so the gross
+ * income of the calendar year is compared against the limit configured in the
+ * settings. Exceeding the limit by no more than the
+ * tolerance keeps the exemption until the end of the year; beyond the
+ * tolerance it is lost immediately.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SmallBusinessService {
+
+  constructor(private settingsService: SettingsService, private transactionService: TransactionServiceComponent) { }
+
+  /**
+   * Retrieves the small-business status of a year.
+   *
+   * @param year - The calendar year.
+   * @returns An observable that emits the status.
+   */
+  getStatus(year: number): Observable<SmallBusinessStatus> {
+    return combineLatest([
+      this.settingsService.getSettings(),
+      this.transactionService.getTransactionsBetweenDates(new Date(year, 0, 1), new Date(year, 11, 31, 23, 59, 59, 999))
+    ]).pipe(
+      map(([settings, transactions]) => {
+        const revenue = transactions
+          .filter(transaction => transaction.incomeExpenses === 'income')
+          .reduce((sum, transaction) => sum + (Number(transaction.gross) || 0), 0);
+        return this.evaluate(
+          year,
+          revenue,
+          settings?.smallBusinessThreshold ?? DEFAULT_SMALL_BUSINESS_THRESHOLD,
+          settings?.smallBusinessTolerance ?? DEFAULT_SMALL_BUSINESS_TOLERANCE,
+          !!settings?.smallBusiness
+        );
+      })
+    );
+  }
+
+  /**
+   * Compares a revenue against the limit.
+   *
+   * @param year - The calendar year.
+   * @param revenue - The gross income of the year.
+   * @param threshold - The revenue limit.
+   * @param tolerance - The tolerance in percent of the limit.
+   * @param enabled - Whether the user applies the small-business exemption.
+   * @returns The status of the revenue.
+   */
+  evaluate(year: number, revenue: number, threshold: number, tolerance: number, enabled: boolean = true): SmallBusinessStatus {
+    const toleranceLimit = threshold * (1 + tolerance / 100);
+    const percent = threshold > 0 ? revenue / threshold * 100 : 0;
+    let state: SmallBusinessStatus['state'] = 'ok';
+    if (revenue > toleranceLimit) {
+      state = 'exceeded';
+    } else if (revenue > threshold) {
+      state = 'tolerance';
+    } else if (percent >= WARNING_PERCENT) {
+      state = 'warning';
+    }
+    return { enabled, year, revenue: Math.round(revenue * 100) / 100, threshold, tolerance, toleranceLimit, percent, state };
+  }
+
+  /**
+   * Returns the status after booking an additional income.
+   *
+   * @param status - The current status.
+   * @param amount - The gross amount of the new income.
+   * @returns The status including the new income.
+   */
+  withIncome(status: SmallBusinessStatus, amount: number): SmallBusinessStatus {
+    return this.evaluate(status.year, status.revenue + amount, status.threshold, status.tolerance, status.enabled);
+  }
+}
@@ -0,0 +1,78 @@
+import { TestBed } from '@angular/core/testing';
+import { AngularFirestore } from '@angular/fire/compat/firestore';
+
+import { StandingOrderService, isValidIntervalMonths } from './standing-order.service';
+import { AuthService } from './auth-service.service';
+import { PeriodLockService } from './period-lock.service';
+import { StandingOrder } from '../standing-order.model';
+import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
+
+describe('StandingOrderService', () => {
+  let service: StandingOrderService;
+
+  const order = (changes: Partial<StandingOrder>): StandingOrder => ({
+    description: 'Miete',
+    category: '',
+    incomeExpenses: 'expense',
+    gross: 100,
+    net: 100,
+    repeatInterval: 'monthly',
+    startDate: new Date(2024, 0, 1).toISOString(),
+    createdAtInMillis: 0,
+    ...changes
+  });
+  const days = (dates: Date[]) => dates.map(date => `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`);
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: AngularFirestore, useValue: {} },
+        { provide: AuthService, useValue: {} },
+        { provide: TransactionServiceComponent, useValue: {} },
+        { provide: PeriodLockService, useValue: {} }
+      ]
+    });
+    service = TestBed.inject(StandingOrderService);
+  });
+
+  it('should clamp monthly due dates to the end of short months', () => {
+    const monthly = order({ startDate: new Date(2024, 0, 31).toISOString() });
+    expect(days(service.dueDates(monthly, new Date(2024, 3, 30)))).toEqual(['2024-1-31', '2024-2-29', '2024-3-31', '2024-4-30']);
+  });
+
+  it('should repeat weekly orders every seven days', () => {
+    const weekly = order({ repeatInterval: 'weekly' });
+    expect(days(service.dueDates(weekly, new Date(2024, 0, 22)))).toEqual(['2024-1-1', '2024-1-8', '2024-1-15', '2024-1-22']);
+  });
+
+  it('should start quarterly orders in the selected quarter', () => {
+    const quarterly = order({ repeatInterval: 'quarterly', quarter: 'Q2', startDate: new Date(2024, 0, 10).toISOString() });
+    expect(days(service.dueDates(quarterly, new Date(2024, 8, 30)))).toEqual(['2024-4-10', '2024-7-10']);
+  });
+
+  it('should book on the last weekday of the month', () => {
+    const lastBusinessDay = order({ repeatInterval: 'lastBusinessDay', startDate: new Date(2024, 2, 1).toISOString() });
+    expect(days(service.dueDates(lastBusinessDay, new Date(2024, 3, 30)))).toEqual(['2024-3-29', '2024-4-30']);
+  });
+
+  it('should repeat every n months only for whole numbers of months', () => {
+    const everyTwoMonths = order({ repeatInterval: 'everyNMonths', intervalMonths: 2, startDate: new Date(2024, 0, 15).toISOString() });
+    expect(days(service.dueDates(everyTwoMonths, new Date(2024, 5, 30)))).toEqual(['2024-1-15', '2024-3-15', '2024-5-15']);
+    expect(service.dueDates({ ...everyTwoMonths, intervalMonths: 1.5 }, new Date(2024, 5, 30))).toEqual([]);
+    expect(service.dueDates({ ...everyTwoMonths, intervalMonths: 0 }, new Date(2024, 5, 30))).toEqual([]);
+    expect(isValidIntervalMonths(undefined)).toBeFalse();
+  });
+
+  it('should skip booked occurrences and paused orders', () => {
+    const booked = order({ lastDueDate: new Date(2024, 1, 1).toISOString() });
+    expect(days(service.dueDates(booked, new Date(2024, 3, 1)))).toEqual(['2024-3-1', '2024-4-1']);
+    expect(service.dueDates(order({ paused: true }), new Date(2024, 3, 1))).toEqual([]);
+  });
+
+  it('should return no due dates for invalid dates', () => {
+    expect(service.dueDates(order({ startDate: 'invalid' }), new Date(2024, 3, 1))).toEqual([]);
+    expect(service.dueDates(order({ endDate: 'invalid' }), new Date(2024, 3, 1))).toEqual([]);
+    expect(service.dueDates(order({}), new Date('invalid'))).toEqual([]);
+    expect(days(service.dueDates(order({ resumedAt: 'invalid' }), new Date(2024, 1, 1)))).toEqual(['2024-1-1', '2024-2-1']);
+  });
+});
@@ -0,0 +1,370 @@
+import { Injectable } from '@angular/core';
+import { AngularFirestore } from '@angular/fire/compat/firestore';
+import { Observable, from, of, concat, throwError } from 'rxjs';
+import { catchError, map, reduce, switchMap, take } from 'rxjs/operators';
+import { AuthService } from './auth-service.service';
+import firebase from 'firebase/compat/app';
+import { StandingOrder } from '../standing-order.model';
+import { TransactionEntry } from '../transaction-entry.model';
+import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
+import { PeriodLockService } from './period-lock.service';
+
+/** Selectable repeat intervals of standing orders with their translation keys. */
+export const REPEAT_INTERVALS = [
+  { value: 'weekly', label: 'WEEKLY' },
+  { value: 'biweekly', label: 'BIWEEKLY' },
+  { value: 'monthly', label: 'MONTHLY' },
+  { value: 'quarterly', label: 'QUARTERLY' },
+  { value: 'yearly', label: 'YEARLY' },
+  { value: 'everyNMonths', label: 'EVERY_N_MONTHS' },
+  { value: 'lastBusinessDay', label: 'LAST_BUSINESS_DAY' }
+];
+
+/** Days between two due dates of the weekly intervals. */
+const INTERVAL_DAYS: { [interval: string]: number } = {
+  weekly: 7,
+  biweekly: 14
+};
+
+/** Months between two due dates of the monthly intervals; "everyNMonths" uses the months of the order. */
+const INTERVAL_MONTHS: { [interval: string]: number } = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+  lastBusinessDay: 1
+};
+
+/**
+ * Returns whether a number of months is a valid interval for "everyNMonths" standing orders.
+ *
+ * @param months - The number of months between two due dates.
+ */
+export function isValidIntervalMonths(months: number | undefined): months is number {
+  return Number.isInteger(months) && months! >= 1;
+}
+
+/**
+ * StandingOrderService stores the standing orders of the user and books
+ * their due transactions. Missed occurrences are caught up when the
+ * scheduler runs; every booked transaction advances the last due date of
+ * its standing order in the same Firestore transaction, so an occurrence
+ * is never booked twice. Occurrences in closed periods cannot be booked;
+ * they are skipped and recorded on the standing order.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StandingOrderService {
+
+  constructor(
+    private firestore: AngularFirestore,
+    private authService: AuthService,
+    private transactionService: TransactionServiceComponent,
+    private periodLockService: PeriodLockService
+  ) { }
+
+  /**
+   * Adds a new standing order for the current user.
+   *
+   * @param order - The standing order to be added.
+   * @returns An observable that completes when the standing order is added.
+   */
+  addStandingOrder(order: StandingOrder): Observable<void> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (user) {
+          order.id = this.firestore.createId();
+          order.userId = user.uid;
+          order.createdAtInMillis = Date.now();
+          return from(this.firestore.collection('standingOrders').doc(order.id).set(this.toDocument(order)));
+        } else {
+          throw new Error('User not authenticated');
+        }
+      })
+    );
+  }
+
+  /**
+   * Updates a standing order. The changes apply to future occurrences only,
+   * transactions already booked are kept as they are.
+   *
+   * @param order - The changed standing order.
+   * @returns An observable that completes when the standing order is updated.
+   */
+  updateStandingOrder(order: StandingOrder): Observable<void> {
+    if (order.repeatInterval === 'everyNMonths' && !isValidIntervalMonths(order.intervalMonths)) {
+      return throwError(() => new Error('The interval must be a whole number of months'));
+    }
+
+    const { id, userId, createdAtInMillis, lastDueDate, skippedDueDates, ...changes } = order;
+    return from(this.firestore.collection('standingOrders').doc(id).update({
+      ...this.toDocument(changes),
+      // Fields cleared in the dialog have to be removed explicitly
+      dayOfMonth: changes.dayOfMonth ?? firebase.firestore.FieldValue.delete(),
+      quarter: changes.quarter ?? firebase.firestore.FieldValue.delete(),
+      intervalMonths: changes.intervalMonths ?? firebase.firestore.FieldValue.delete(),
+      endDate: changes.endDate ?? firebase.firestore.FieldValue.delete()
+    }));
+  }
+
+  /**
+   * Pauses or resumes a standing order. Occurrences due while it is paused are skipped.
+   *
+   * @param order - The standing order.
+   * @param paused - True to pause, false to resume.
+   * @returns An observable that completes when the standing order is updated.
+   */
+  setPaused(order: StandingOrder, paused: boolean): Observable<void> {
+    return from(this.firestore.collection('standingOrders').doc(order.id).update(
+      paused ? { paused: true } : { paused: false, resumedAt: this.startOfDay(new Date()).toISOString() }
+    ));
+  }
+
+  /**
+   * Ends a standing order after today; no further transactions are booked.
+   *
+   * @param order - The standing order.
+   * @returns An observable that completes when the standing order is updated.
+   */
+  endSeries(order: StandingOrder): Observable<void> {
+    return from(this.firestore.collection('standingOrders').doc(order.id).update({ endDate: new Date().toISOString() }));
+  }
+
+  /**
+   * Deletes a standing order. The transactions it has booked are kept.
+   *
+   * @param order - The standing order.
+   * @returns An observable that completes when the standing order is deleted.
+   */
+  deleteStandingOrder(order: StandingOrder): Observable<void> {
+    return from(this.firestore.collection('standingOrders').doc(order.id).delete());
+  }
+
+  /**
+   * Retrieves the transactions booked by a standing order, oldest first.
+   *
+   * @param order - The standing order.
+   * @returns An observable that emits the booked transactions.
+   */
+  getBookings(order: StandingOrder): Observable<TransactionEntry[]> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (user) {
+          return this.firestore.collection<TransactionEntry>('transactions', ref =>
+            ref.where('userId', '==', user.uid)
+              .where('standingOrderId', '==', order.id)
+          ).valueChanges().pipe(
+            map(transactions => transactions
+              .filter(transaction => !transaction.deleted)
+              .sort((a, b) => a.dateInMillis - b.dateInMillis))
+          );
+        } else {
+          return new Observable<TransactionEntry[]>(); // Return an empty observable if no user is logged in
+        }
+      })
+    );
+  }
+
+  /**
+   * Retrieves all standing orders of the current user.
+   *
+   * @returns An observable that emits the standing orders.
+   */
+  getStandingOrders(): Observable<StandingOrder[]> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (user) {
+          return this.firestore.collection<StandingOrder>('standingOrders', ref =>
+            ref.where('userId', '==', user.uid)
+          ).valueChanges({ idField: 'id' });
+        } else {
+          return new Observable<StandingOrder[]>(); // Return an empty observable if no user is logged in
+        }
+      })
+    );
+  }
+
+  /**
+   * Books all due transactions of the standing orders of the current user,
+   * including the occurrences missed since the app was last opened.
+   *
+   * @returns An observable that emits the number of booked transactions.
+   */
+  executeDue(): Observable<number> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (!user) {
+          return of(0);
+        }
+
+        return this.periodLockService.getLockedPeriods().pipe(
+          take(1),
+          switchMap(lockedPeriods => from(this.firestore.collection<StandingOrder>('standingOrders', ref =>
+            ref.where('userId', '==', user.uid)
+          ).get()).pipe(map(snapshot => ({ lockedPeriods, snapshot })))),
+          switchMap(({ lockedPeriods, snapshot }) => {
+            const bookings = snapshot.docs.map(doc => this.executeOrder({ ...doc.data(), id: doc.id }, lockedPeriods));
+            return bookings.length ? concat(...bookings).pipe(reduce((sum, count) => sum + count, 0)) : of(0);
+          })
+        );
+      })
+    );
+  }
+
+  /**
+   * Returns the next due date of a standing order that is not booked yet.
+   *
+   * @param order - The standing order.
+   * @returns The next due date, or null if the order is paused or ended.
+   */
+  nextDueDate(order: StandingOrder): Date | null {
+    const until = new Date();
+    until.setMonth(until.getMonth() + Math.max(13, (order.intervalMonths || 0) + 1)); // Covers one period of every interval
+    return this.dueDates(order, until)[0] || null;
+  }
+
+  /**
+   * Returns the due dates of a standing order that are not booked yet.
+   * Paused standing orders have no due dates.
+   *
+   * @param order - The standing order.
+   * @param until - The latest due date to return.
+   * @returns The due dates in ascending order.
+   */
+  dueDates(order: StandingOrder, until: Date): Date[] {
+    const stepDays = INTERVAL_DAYS[order.repeatInterval];
+    const stepMonths = order.repeatInterval === 'everyNMonths' ? order.intervalMonths : INTERVAL_MONTHS[order.repeatInterval];
+    if (!(stepDays || isValidIntervalMonths(stepMonths)) || !order.startDate || order.paused) {
+      return [];
+    }
+
+    const start = this.startOfDay(new Date(order.startDate));
+    const end = order.endDate ? this.startOfDay(new Date(order.endDate)) : null;
+    const lastDue = order.lastDueDate ? new Date(order.lastDueDate) : null;
+    // Invalid dates compare false against every due date, the loop below would never end
+    if (isNaN(start.getTime()) || isNaN(until.getTime()) || (end && isNaN(end.getTime()))) {
+      return [];
+    }
+    const day = order.dayOfMonth || start.getDate();
+
+    // Quarterly orders begin in the selected quarter of the start year at the earliest
+    let firstMonth = start.getMonth();
+    let earliest = start;
+    if (order.repeatInterval === 'quarterly' && order.quarter) {
+      const quarterStart = new Date(start.getFullYear(), (parseInt(order.quarter.substring(1), 10) - 1) * 3, 1);
+      firstMonth = quarterStart.getMonth();
+      earliest = quarterStart > start ? quarterStart : start;
+    }
+    if (order.resumedAt && new Date(order.resumedAt) > earliest) {
+      earliest = new Date(order.resumedAt);
+    }
+
+    const dates: Date[] = [];
+    for (let i = 0; ; i++) {
+      let dueDate: Date;
+      if (stepDays) {
+        dueDate = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i * stepDays);
+      } else if (order.repeatInterval === 'lastBusinessDay') {
+        dueDate = this.lastBusinessDay(start.getFullYear(), firstMonth + i);
+      } else {
+        dueDate = this.clampedDate(start.getFullYear(), firstMonth + i * (stepMonths || 0), day);
+      }
+
+      if (dueDate > until || (end && dueDate > end)) {
+        break;
+      }
+      if (dueDate >= earliest && (!lastDue || dueDate > lastDue)) {
+        dates.push(dueDate);
+      }
+    }
+    return dates;
+  }
+
+  /**
+   * Books the due transactions of a single standing order one after another.
+   * Occurrences in locked periods are skipped, so that they do not block the
+   * later ones. Any other failing booking stops the order, the remaining
+   * occurrences are caught up on the next run.
+   */
+  private executeOrder(order: StandingOrder, lockedPeriods: string[]): Observable<number> {
+    const bookings = this.dueDates(order, new Date()).map(dueDate =>
+      this.periodLockService.isLocked(lockedPeriods, dueDate)
+        ? this.skipDueDate(order, dueDate).pipe(map(() => 0))
+        : this.transactionService.addTransaction(this.toTransaction(order, dueDate)).pipe(map(() => 1))
+    );
+    if (bookings.length === 0) {
+      return of(0);
+    }
+
+    return concat(...bookings).pipe(
+      reduce((sum, count) => sum + count, 0),
+      catchError(error => {
+        console.error(`Error executing standing order ${order.id}:`, error);
+        return of(0);
+      })
+    );
+  }
+
+  /**
+   * Records an occurrence that cannot be booked because its period is closed
+   * and advances the last due date past it.
+   */
+  private skipDueDate(order: StandingOrder, dueDate: Date): Observable<void> {
+    console.warn(`Standing order ${order.id}: occurrence on ${dueDate.toDateString()} skipped, the period is closed`);
+    return from(this.firestore.collection('standingOrders').doc(order.id).update({
+      lastDueDate: dueDate.toISOString(),
+      skippedDueDates: firebase.firestore.FieldValue.arrayUnion(dueDate.toISOString())
+    }));
+  }
+
+  /**
+   * Creates the transaction of a standing order due on the given date.
+   */
+  private toTransaction(order: StandingOrder, dueDate: Date): TransactionEntry {
+    const transaction = new TransactionEntry('', dueDate.toISOString(), order.gross, order.net, order.description,
+      order.category, order.incomeExpenses, dueDate.getTime(), order.documentName || '');
+    transaction.vatRate = order.vatRate;
+    transaction.vatAmount = order.vatAmount;
+    transaction.reverseCharge = order.reverseCharge;
+    transaction.intraEu = order.intraEu;
+    transaction.attachments = order.attachments;
+    transaction.standingOrderId = order.id;
+    return transaction;
+  }
+
+  /**
+   * Converts a standing order into the data stored in Firestore, without undefined fields.
+   */
+  private toDocument(order: Partial<StandingOrder>): { [field: string]: any } {
+    return Object.fromEntries(Object.entries(order).filter(([, value]) => value !== undefined));
+  }
+
+  /**
+   * Returns the given day of a month, clamped to the last day of short months
+   * (a series on the 31st is due on the 28th/29th of February and the 30th of April).
+   * The month may exceed 11, it is carried over into the following years.
+   */
+  private clampedDate(year: number, month: number, day: number): Date {
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    return new Date(year, month, Math.min(day, daysInMonth));
+  }
+
+  /**
+   * Returns the last weekday (Monday to Friday) of a month. Public holidays are not considered.
+   * The month may exceed 11, it is carried over into the following years.
+   */
+  private lastBusinessDay(year: number, month: number): Date {
+    const date = new Date(year, month + 1, 0);
+    while (date.getDay() === 0 || date.getDay() === 6) {
+      date.setDate(date.getDate() - 1);
+    }
+    return date;
+  }
+
+  /**
+   * Returns the local midnight of a date.
+   */
+  private startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+}
@@ -0,0 +1,155 @@
+import { TestBed } from '@angular/core/testing';
+
+import { StatementParserService } from './statement-parser.service';
+
+describe('StatementParserService', () => {
+  let service: StatementParserService;
+
+  const mt940 = [
+    '{1:F01BKAUATWWAXXX0000000000}{2:O9401200240103BKAUATWWAXXX00000000002401031200N}{4:',
+    ':20:STARTUMS',
+    ':25:12000/51234567890',
+    ':28C:00001/001',
+    ':60F:C231229EUR1000,00',
+    ':61:2401021231D45,90NDDTNONREF',
+    ':86:105?00SEPA-LASTSCHRIFT?20Strom Dezember?21Kundennummer 4711',
+    '?31AT611904300234573201?32Wien Energie GmbH',
+    ':61:2401030103CR1200,NTRFNONREF',
+    ':86:Honorar Rechnung 2023-12',
+    'Muster KG',
+    ':61:2401030103RD15,00NCHGNONREF',
+    ':86:Storno Kontofuehrung',
+    ':61:2401030103RC7,50NCHGNONREF',
+    ':86:Storno Gutschrift',
+    ':62F:C240103EUR2161,60',
+    '-}'
+  ].join('\r\n');
+
+  const camt053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>STMT-2024-01</MsgId><CreDtTm>2024-01-04T06:00:00</CreDtTm></GrpHdr>
+    <Stmt>
+      <Id>2024-01</Id>
+      <Acct><Id><IBAN>AT483200000012345864</IBAN></Id></Acct>
+      <Ntry>
+        <Amt Ccy="EUR">1200.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-01-02</Dt></BookgDt>
+        <ValDt><Dt>2024-01-02</Dt></ValDt>
+        <NtryDtls><TxDtls>
+          <RltdPties>
+            <Dbtr><Nm>Muster KG</Nm></Dbtr>
+            <DbtrAcct><Id><IBAN>AT611904300234573201</IBAN></Id></DbtrAcct>
+          </RltdPties>
+          <RmtInf><Ustrd>Rechnung 2023-12</Ustrd><Ustrd>Danke</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">45.90</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><DtTm>2024-01-03T10:15:00</DtTm></BookgDt>
+        <NtryDtls><TxDtls>
+          <RltdPties>
+            <Dbtr><Nm>Max Muster</Nm></Dbtr>
+            <Cdtr><Nm>Wien Energie GmbH</Nm></Cdtr>
+            <CdtrAcct><Id><IBAN>AT021100000012345678</IBAN></Id></CdtrAcct>
+          </RltdPties>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">15.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <RvslInd>true</RvslInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-01-03</Dt></BookgDt>
+        <AddtlNtryInf>Storno Kontofuehrung</AddtlNtryInf>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">99.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2024-01-04</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(StatementParserService);
+  });
+
+  it('should detect the format of a statement', () => {
+    expect(service.detectFormat('auszug.xml', camt053)).toBe('camt053');
+    expect(service.detectFormat('auszug.txt', mt940)).toBe('mt940');
+    expect(service.detectFormat('auszug.sta', '')).toBe('mt940');
+    expect(service.detectFormat('auszug.csv', 'Datum;Betrag;Text\n02.01.2024;-45,90;Strom')).toBe('csv');
+  });
+
+  it('should read the bookings of an MT940 statement', () => {
+    const lines = service.parseMt940(mt940);
+
+    expect(lines.length).toBe(4);
+    expect(lines[1]).toEqual({ date: new Date(2024, 0, 3), amount: 1200, description: 'Honorar Rechnung 2023-12 Muster KG' });
+  });
+
+  it('should read the structured information of an MT940 booking', () => {
+    const [direct] = service.parseMt940(mt940);
+
+    expect(direct.amount).toBe(-45.9);
+    expect(direct.description).toBe('Strom DezemberKundennummer 4711');
+    expect(direct.counterpartyName).toBe('Wien Energie GmbH');
+    expect(direct.counterpartyIban).toBe('AT611904300234573201');
+  });
+
+  it('should book MT940 entries at the turn of the year in the year of the entry date', () => {
+    const [direct] = service.parseMt940(mt940);
+    expect(direct.date).toEqual(new Date(2023, 11, 31));
+
+    const [late] = service.parseMt940(':20:X\n:61:2312310102C10,00NTRFNONREF\n');
+    expect(late.date).toEqual(new Date(2024, 0, 2));
+  });
+
+  it('should turn MT940 reversals into the opposite direction', () => {
+    const [, , reversedDebit, reversedCredit] = service.parseMt940(mt940);
+
+    expect(reversedDebit.amount).toBe(15);
+    expect(reversedCredit.amount).toBe(-7.5);
+  });
+
+  it('should read the booked entries of a CAMT.053 statement', () => {
+    const lines = service.parseCamt053(camt053);
+
+    expect(lines.length).toBe(3);
+    expect(lines[0]).toEqual({
+      date: new Date(2024, 0, 2),
+      amount: 1200,
+      description: 'Rechnung 2023-12 Danke',
+      counterpartyName: 'Muster KG',
+      counterpartyIban: 'AT611904300234573201'
+    });
+  });
+
+  it('should take the creditor of a CAMT.053 debit as counterparty', () => {
+    const [, debit] = service.parseCamt053(camt053);
+
+    expect(debit.date).toEqual(new Date(2024, 0, 3));
+    expect(debit.amount).toBe(-45.9);
+    expect(debit.description).toBe('Wien Energie GmbH');
+    expect(debit.counterpartyIban).toBe('AT021100000012345678');
+  });
+
+  it('should turn CAMT.053 reversals into the opposite direction', () => {
+    const [, , reversal] = service.parseCamt053(camt053);
+
+    expect(reversal.amount).toBe(15);
+    expect(reversal.description).toBe('Storno Kontofuehrung');
+  });
+
+  it('should reject invalid CAMT.053 files', () => {
+    expect(() => service.parseCamt053('<Document><Ntry>')).toThrowError('Invalid CAMT.053 file');
+  });
+});
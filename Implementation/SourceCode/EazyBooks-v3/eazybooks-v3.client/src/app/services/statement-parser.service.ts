@@ -0,0 +1,216 @@
+import { Injectable } from '@angular/core';
+import { StatementLine } from '../statement-line.model';
+
+/**
+ * StatementParserService reads the structured statement formats offered by
+ * Austrian and German banks (ISO 20022 CAMT.053 XML and SWIFT MT940)
+ * and turns them into statement lines for the import flow.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StatementParserService {
+
+  constructor() { }
+
+  /**
+   * Detects the format of an uploaded statement file.
+   *
+   * @param fileName - The name of the file.
+   * @param content - The content of the file.
+   * @returns 'camt053', 'mt940' or 'csv'.
+   */
+  detectFormat(fileName: string, content: string): 'camt053' | 'mt940' | 'csv' {
+    const head = content.slice(0, 2000);
+    if (head.includes('camt.053') || head.includes('<BkToCstmrStmt')) {
+      return 'camt053';
+    }
+    if ((/(^|\n)\s*:20:/.test(head) && /:61:/.test(content)) || /\.(sta|mt940)$/i.test(fileName)) {
+      return 'mt940';
+    }
+    return 'csv';
+  }
+
+  /**
+   * Parses an ISO 20022 CAMT.053 bank-to-customer statement.
+   * Pending entries are skipped, reversals flip the credit/debit indicator.
+   *
+   * @param xml - The XML content of the statement.
+   * @returns The booked entries of all statements in the file.
+   */
+  parseCamt053(xml: string): StatementLine[] {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length) {
+      throw new Error('Invalid CAMT.053 file');
+    }
+
+    const lines: StatementLine[] = [];
+    const entries = Array.from(doc.getElementsByTagNameNS('*', 'Ntry'));
+
+    entries.forEach(entry => {
+      const status = this.text(entry, 'Sts');
+      if (status && status !== 'BOOK') {
+        return; // Only booked entries end up in the books
+      }
+
+      const amount = parseFloat(this.text(entry, 'Amt'));
+      const dateText = this.text(this.child(entry, 'BookgDt'), 'Dt') || this.text(this.child(entry, 'BookgDt'), 'DtTm')
+        || this.text(this.child(entry, 'ValDt'), 'Dt');
+      const date = this.parseIsoDate(dateText);
+      if (!date || isNaN(amount)) {
+        console.warn('Skipping unparsable CAMT.053 entry:', entry);
+        return;
+      }
+
+      let credit = this.text(entry, 'CdtDbtInd') === 'CRDT';
+      if (this.text(entry, 'RvslInd') === 'true') {
+        credit = !credit;
+      }
+
+      // The counterparty of a credit is the debtor, of a debit the creditor
+      const parties = this.child(entry, 'RltdPties');
+      const counterparty = this.child(parties, credit ? 'Dbtr' : 'Cdtr');
+      const counterpartyAccount = this.child(parties, credit ? 'DbtrAcct' : 'CdtrAcct');
+
+      const remittance = Array.from(entry.getElementsByTagNameNS('*', 'Ustrd'))
+        .map(node => (node.textContent || '').trim())
+        .filter(text => text)
+        .join(' ');
+
+      lines.push({
+        date,
+        amount: credit ? amount : -amount,
+        description: remittance || this.text(entry, 'AddtlNtryInf') || this.text(counterparty, 'Nm'),
+        counterpartyName: this.text(counterparty, 'Nm') || undefined,
+        counterpartyIban: this.text(counterpartyAccount, 'IBAN') || undefined
+      });
+    });
+
+    return lines;
+  }
+
+  /**
+   * Parses a SWIFT MT940 customer statement.
+   * Supports free-text and structured (?20 - ?63 subfields) :86: information.
+   *
+   * @param content - The content of the MT940 file.
+   * @returns The statement lines of all statements in the file.
+   */
+  parseMt940(content: string): StatementLine[] {
+    const fields = this.splitMt940Fields(content);
+    const lines: StatementLine[] = [];
+    let current: StatementLine | null = null;
+
+    fields.forEach(({ tag, value }) => {
+      if (tag === '61') {
+        const match = /^(\d{2})(\d{2})(\d{2})(\d{4})?(R?[CD])[A-Z]?(\d+,\d*)/.exec(value.replace(/\s/g, ''));
+        if (!match) {
+          console.warn('Skipping unparsable MT940 line:', value);
+          current = null;
+          return;
+        }
+
+        const [, yy, mm, dd, entryDate, mark, amountText] = match;
+        const valueMonth = parseInt(mm, 10);
+        // Entry date (MMDD) is the booking date, the leading date is the value date
+        const month = entryDate ? parseInt(entryDate.slice(0, 2), 10) : valueMonth;
+        const day = entryDate ? parseInt(entryDate.slice(2, 4), 10) : parseInt(dd, 10);
+        // The entry date has no year: a booking at the turn of the year belongs to the neighbouring year
+        let year = 2000 + parseInt(yy, 10);
+        if (month - valueMonth > 6) {
+          year--; // e.g. booked 31.12., value date 02.01.
+        } else if (valueMonth - month > 6) {
+          year++; // e.g. booked 02.01., value date 31.12.
+        }
+        const amount = parseFloat(amountText.replace(',', '.'));
+        // RC (reversal of credit) is a debit, RD (reversal of debit) is a credit
+        const credit = mark === 'C' || mark === 'RD';
+
+        current = {
+          date: new Date(year, month - 1, day),
+          amount: credit ? amount : -amount,
+          description: ''
+        };
+        lines.push(current);
+      } else if (tag === '86' && current) {
+        this.applyMt940Information(current, value);
+      }
+    });
+
+    return lines;
+  }
+
+  /**
+   * Splits MT940 content into its tagged fields. Continuation lines are
+   * appended to the previous field, SWIFT block headers are removed.
+   *
+   * @param content - The content of the MT940 file.
+   * @returns The fields in file order.
+   */
+  private splitMt940Fields(content: string): { tag: string, value: string }[] {
+    const fields: { tag: string, value: string }[] = [];
+    const cleaned = content.replace(/\{[1-3]:[^}]*\}/g, '').replace(/\{4:/g, '');
+
+    cleaned.split(/\r?\n/).forEach(line => {
+      const match = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+      if (match) {
+        fields.push({ tag: match[1], value: match[2] });
+      } else if (fields.length && line.trim() && !/^-\}?$/.test(line.trim())) {
+        fields[fields.length - 1].value += '\n' + line;
+      }
+    });
+
+    return fields;
+  }
+
+  /**
+   * Reads the information to account owner (:86:) into a statement line.
+   *
+   * @param line - The statement line the information belongs to.
+   * @param value - The raw :86: field value.
+   */
+  private applyMt940Information(line: StatementLine, value: string): void {
+    const joined = value.replace(/\r?\n/g, '');
+    if (!/\?\d{2}/.test(joined)) {
+      line.description = value.replace(/\r?\n/g, ' ').replace(/\s+/g, ' ').trim();
+      return;
+    }
+
+    const subfields: { [key: string]: string } = {};
+    joined.split('?').slice(1).forEach(part => {
+      const key = part.slice(0, 2);
+      subfields[key] = (subfields[key] || '') + part.slice(2);
+    });
+
+    const purposeKeys = ['20', '21', '22', '23', '24', '25', '26', '27', '28', '29', '60', '61', '62', '63'];
+    const purpose = purposeKeys.map(key => subfields[key] || '').join('').trim();
+    const name = ((subfields['32'] || '') + (subfields['33'] || '')).trim();
+
+    line.description = purpose || name;
+    line.counterpartyName = name || undefined;
+    line.counterpartyIban = subfields['31'] ? subfields['31'].trim() : undefined;
+  }
+
+  /**
+   * Returns the first descendant element with the given local name.
+   */
+  private child(parent: Element | null, name: string): Element | null {
+    return parent ? parent.getElementsByTagNameNS('*', name)[0] || null : null;
+  }
+
+  /**
+   * Returns the trimmed text of the first descendant element with the given local name.
+   */
+  private text(parent: Element | null, name: string): string {
+    const element = this.child(parent, name);
+    return element ? (element.textContent || '').trim() : '';
+  }
+
+  /**
+   * Parses the date part of an ISO date or date-time string as local date.
+   */
+  private parseIsoDate(value: string): Date | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+    return match ? new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)) : null;
+  }
+}
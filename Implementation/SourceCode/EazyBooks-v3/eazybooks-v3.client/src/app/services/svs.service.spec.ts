@@ -0,0 +1,41 @@
+import { TestBed } from '@angular/core/testing';
+
+import { SvsService, DEFAULT_SVS_PARAMETERS } from './svs.service';
+import { SettingsService } from './settings.service';
+import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
+
+describe('SvsService', () => {
+  let service: SvsService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: SettingsService, useValue: {} },
+        { provide: TransactionServiceComponent, useValue: {} }
+      ]
+    });
+    service = TestBed.inject(SvsService);
+  });
+
+  it('should add the booked contributions back to the profit', () => {
+    const estimate = service.estimate(30000, 6000, DEFAULT_SVS_PARAMETERS);
+
+    expect(estimate.contributionBase).toBe(36000);
+    expect(estimate.pension).toBe(6660);
+    expect(estimate.health).toBe(2448);
+    expect(estimate.provision).toBe(550.8);
+    expect(estimate.accident).toBe(144.84);
+    expect(estimate.total).toBe(9803.64);
+    expect(estimate.difference).toBe(3803.64);
+  });
+
+  it('should limit the contribution base to the minimum and maximum base', () => {
+    expect(service.estimate(-5000, 0, DEFAULT_SVS_PARAMETERS).contributionBase).toBe(DEFAULT_SVS_PARAMETERS.minimumBase);
+    expect(service.estimate(200000, 10000, DEFAULT_SVS_PARAMETERS).contributionBase).toBe(DEFAULT_SVS_PARAMETERS.maximumBase);
+  });
+
+  it('should report a refund when more was prepaid than is owed', () => {
+    const estimate = service.estimate(0, 3000, DEFAULT_SVS_PARAMETERS);
+    expect(estimate.difference).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,138 @@
+import { Injectable } from '@angular/core';
+import { Observable, combineLatest } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { SettingsService } from './settings.service';
+import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
+import { IncomeTaxService } from './income-tax.service';
+
+/** Rates and contribution bases of the self-employed social insurance (SVS, GSVG). */
+export interface SvsParameters {
+  pensionRate: number; // Pension insurance in percent of the contribution base
+  healthRate: number; // Health insurance in percent of the contribution base
+  provisionRate: number; // Selbständigenvorsorge in percent of the contribution base
+  accidentPerMonth: number; // Fixed accident insurance contribution per month
+  minimumBase: number; // Minimum yearly contribution base
+  maximumBase: number; // Maximum yearly contribution base
+  category: string; // Category under which the provisional contributions are booked
+}
+
+/** The estimated SVS contributions of a year. */
+export interface SvsEstimate {
+  contributionBase: number; // Profit plus booked contributions, limited to minimum and maximum base
+  pension: number;
+  health: number;
+  provision: number;
+  accident: number;
+  total: number; // Expected contributions of the year
+  booked: number; // Provisional contributions of the year, booked so far and projected to year end
+  difference: number; // Expected back-payment (positive) or refund (negative)
+}
+
+/** Parameters of 2025, used until the user configures others. */
+export const DEFAULT_SVS_PARAMETERS: SvsParameters = {
+  pensionRate: 18.5,
+  healthRate: 6.8,
+  provisionRate: 1.53,
+  accidentPerMonth: 12.07,
+  minimumBase: 6221.28,
+  maximumBase: 90300,
+  category: ''
+};
+
+/**
+ * SvsService estimates the contributions to the social insurance of the
+ * self-employed. The contribution base is the profit of the year plus the
+ * contributions deducted as expenses, limited to the minimum and maximum
+ * base. The result is compared with the provisional contributions booked
+ * under the configured category, projected to the end of the year like the
+ * profit, so that the prepayments still due are not counted as back-payment.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SvsService {
+
+  constructor(
+    private settingsService: SettingsService,
+    private transactionService: TransactionServiceComponent,
+    private incomeTaxService: IncomeTaxService
+  ) { }
+
+  /**
+   * Retrieves the SVS parameters of the current user, completed with the defaults.
+   *
+   * @returns An observable that emits the parameters.
+   */
+  getParameters(): Observable<SvsParameters> {
+    return this.settingsService.getSettings().pipe(
+      map((settings: any) => ({ ...DEFAULT_SVS_PARAMETERS, ...(settings?.svs || {}) }))
+    );
+  }
+
+  /**
+   * Saves the SVS parameters of the current user.
+   *
+   * @param parameters - The parameters to save.
+   * @returns An observable that completes when the parameters are saved.
+   */
+  saveParameters(parameters: SvsParameters): Observable<void> {
+    return this.settingsService.saveSettings({ svs: parameters });
+  }
+
+  /**
+   * Estimates the SVS contributions of a year.
+   *
+   * @param year - The calendar year.
+   * @param profit - The profit of the year (actual or projected to year end).
+   * @returns An observable that emits the estimate.
+   */
+  getEstimate(year: number, profit: number): Observable<SvsEstimate> {
+    return combineLatest([
+      this.getParameters(),
+      this.transactionService.getTransactionsBetweenDates(new Date(year, 0, 1), new Date(year, 11, 31, 23, 59, 59, 999))
+    ]).pipe(
+      map(([parameters, transactions]) => {
+        const booked = transactions
+          .filter(transaction => transaction.incomeExpenses === 'expense' && !!parameters.category && transaction.category === parameters.category)
+          .reduce((sum, transaction) => sum + (Number(transaction.net ?? transaction.gross) || 0), 0);
+        return this.estimate(profit, this.incomeTaxService.projectToYearEnd(booked, year), parameters);
+      })
+    );
+  }
+
+  /**
+   * Calculates the contributions from the profit and the booked contributions.
+   *
+   * @param profit - The profit of the year, after deducting the booked contributions.
+   * @param booked - The provisional contributions of the same period as the profit, booked as expenses.
+   * @param parameters - The rates and contribution bases.
+   * @returns The estimate.
+   */
+  estimate(profit: number, booked: number, parameters: SvsParameters): SvsEstimate {
+    // The booked contributions are expenses, they are added back to get the contribution base
+    const contributionBase = Math.min(Math.max(profit + booked, parameters.minimumBase), parameters.maximumBase);
+    const pension = this.round(contributionBase * parameters.pensionRate / 100);
+    const health = this.round(contributionBase * parameters.healthRate / 100);
+    const provision = this.round(contributionBase * parameters.provisionRate / 100);
+    const accident = this.round(parameters.accidentPerMonth * 12);
+    const total = this.round(pension + health + provision + accident);
+
+    return {
+      contributionBase: this.round(contributionBase),
+      pension,
+      health,
+      provision,
+      accident,
+      total,
+      booked: this.round(booked),
+      difference: this.round(total - booked)
+    };
+  }
+
+  /**
+   * Rounds an amount to cents.
+   */
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,157 @@
+import { Injectable } from '@angular/core';
+import { ParamMap, Params } from '@angular/router';
+import { TransactionEntry } from '../transaction-entry.model';
+import { TransactionFilter } from '../transaction-filter.model';
+
+/**
+ * TransactionFilterService applies the criteria of the transaction filter panel
+ * and converts them from and to URL query parameters, so that a filtered
+ * view can be bookmarked.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TransactionFilterService {
+
+  constructor() { }
+
+  /**
+   * Creates a filter without any criteria.
+   *
+   * @returns A filter that matches all transactions.
+   */
+  createEmptyFilter(): TransactionFilter {
+    return {
+      text: '',
+      categories: [],
+      type: '',
+      minAmount: null,
+      maxAmount: null,
+      dateFrom: '',
+      dateTo: '',
+      hasReceipt: ''
+    };
+  }
+
+  /**
+   * Checks whether any criterion of the filter is set.
+   *
+   * @param filter - The filter to check.
+   * @returns True if the filter restricts the transactions.
+   */
+  isActive(filter: TransactionFilter): boolean {
+    return !!filter.text || filter.categories.length > 0 || !!filter.type || filter.minAmount != null
+      || filter.maxAmount != null || !!filter.dateFrom || !!filter.dateTo || !!filter.hasReceipt;
+  }
+
+  /**
+   * Applies the filter to a list of transactions.
+   *
+   * @param transactions - The transactions to filter.
+   * @param filter - The filter criteria.
+   * @returns The transactions matching all criteria.
+   */
+  apply(transactions: TransactionEntry[], filter: TransactionFilter): TransactionEntry[] {
+    return transactions.filter(transaction => this.matches(transaction, filter));
+  }
+
+  /**
+   * Checks whether a transaction matches all criteria of the filter.
+   *
+   * @param transaction - The transaction to check.
+   * @param filter - The filter criteria.
+   * @returns True if the transaction matches.
+   */
+  matches(transaction: TransactionEntry, filter: TransactionFilter): boolean {
+    const text = filter.text.trim().toLowerCase();
+    if (text && !(transaction.description || '').toLowerCase().includes(text)) {
+      return false;
+    }
+    if (filter.categories.length && !filter.categories.includes(transaction.category)) {
+      return false;
+    }
+    if (filter.type && transaction.incomeExpenses !== filter.type) {
+      return false;
+    }
+    if (filter.minAmount != null && transaction.gross < filter.minAmount) {
+      return false;
+    }
+    if (filter.maxAmount != null && transaction.gross > filter.maxAmount) {
+      return false;
+    }
+    if (filter.hasReceipt && !!(transaction.attachments?.length || transaction.documentName) !== (filter.hasReceipt === 'yes')) {
+      return false;
+    }
+
+    const date = new Date(transaction.date);
+    const from = this.parseDay(filter.dateFrom);
+    const to = this.parseDay(filter.dateTo);
+    if (from && date < from) {
+      return false;
+    }
+    if (to && date >= new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1)) {
+      return false; // The whole last day belongs to the range
+    }
+
+    return true;
+  }
+
+  /**
+   * Reads a filter from URL query parameters.
+   *
+   * @param params - The query parameters of the current route.
+   * @returns The filter described by the parameters.
+   */
+  fromQueryParams(params: ParamMap): TransactionFilter {
+    const type = params.get('type');
+    const hasReceipt = params.get('receipt');
+
+    return {
+      text: params.get('q') || '',
+      categories: params.getAll('category'),
+      type: type === 'income' || type === 'expense' ? type : '',
+      minAmount: this.parseNumber(params.get('min')),
+      maxAmount: this.parseNumber(params.get('max')),
+      dateFrom: this.parseDay(params.get('from')) ? params.get('from')! : '',
+      dateTo: this.parseDay(params.get('to')) ? params.get('to')! : '',
+      hasReceipt: hasReceipt === 'yes' || hasReceipt === 'no' ? hasReceipt : ''
+    };
+  }
+
+  /**
+   * Converts a filter into URL query parameters. Unset criteria are null,
+   * so that they are removed from the URL when the parameters are merged.
+   *
+   * @param filter - The filter to convert.
+   * @returns The query parameters describing the filter.
+   */
+  toQueryParams(filter: TransactionFilter): Params {
+    return {
+      q: filter.text || null,
+      category: filter.categories.length ? filter.categories : null,
+      type: filter.type || null,
+      min: filter.minAmount != null ? filter.minAmount : null,
+      max: filter.maxAmount != null ? filter.maxAmount : null,
+      from: filter.dateFrom || null,
+      to: filter.dateTo || null,
+      receipt: filter.hasReceipt || null
+    };
+  }
+
+  /**
+   * Parses a day in the format YYYY-MM-DD as local date.
+   */
+  private parseDay(value: string | null): Date | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value || '');
+    return match ? new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)) : null;
+  }
+
+  /**
+   * Parses a number from a query parameter.
+   */
+  private parseNumber(value: string | null): number | null {
+    if (value == null || value === '') return null;
+    const number = parseFloat(value);
+    return isNaN(number) ? null : number;
+  }
+}
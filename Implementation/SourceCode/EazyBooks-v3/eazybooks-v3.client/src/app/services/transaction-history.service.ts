@@ -0,0 +1,141 @@
+import { Injectable } from '@angular/core';
+import { AngularFirestore } from '@angular/fire/compat/firestore';
+import { Observable, forkJoin, from, of } from 'rxjs';
+import { map, switchMap } from 'rxjs/operators';
+import { AuthService } from './auth-service.service';
+import firebase from 'firebase/compat/app';
+import { FieldChange, TransactionHistoryEntry } from '../transaction-history.model';
+
+/** Fields of a transaction whose changes are recorded in the history. */
+const TRACKED_FIELDS = [
+  'date', 'gross', 'net', 'vatRate', 'reverseCharge', 'intraEu', 'description', 'category', 'incomeExpenses', 'documentName', 'attachments', 'deleted'
+];
+
+/**
+ * TransactionHistoryService keeps the audit trail of transactions. Every
+ * change is appended as an entry to the "history" subcollection of the
+ * transaction document; entries are never updated or deleted.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TransactionHistoryService {
+
+  constructor(private firestore: AngularFirestore, private authService: AuthService) { }
+
+  /**
+   * Returns a reference for a new entry in the history of a transaction.
+   *
+   * @param documentId - The Firestore document ID of the transaction.
+   * @returns The reference of the new history document.
+   */
+  newEntryRef(documentId: string): firebase.firestore.DocumentReference {
+    return this.firestore.firestore.collection('transactions').doc(documentId).collection('history').doc();
+  }
+
+  /**
+   * Creates a history entry for a change made by the given user.
+   *
+   * @param user - The user who made the change.
+   * @param action - The kind of the change.
+   * @param changes - The changed fields.
+   * @returns The history entry to be stored.
+   */
+  createEntry(user: firebase.User, action: TransactionHistoryEntry['action'], changes: FieldChange[]): TransactionHistoryEntry {
+    const now = new Date();
+    return {
+      action,
+      changedBy: user.email || user.uid,
+      changedByUid: user.uid,
+      changedAt: now.toISOString(),
+      changedAtInMillis: now.getTime(),
+      changes
+    };
+  }
+
+  /**
+   * Compares the tracked fields of a transaction before and after a change.
+   *
+   * @param before - The stored transaction data (empty object for new transactions).
+   * @param after - The changed fields of the transaction.
+   * @returns The fields whose values differ.
+   */
+  diff(before: { [field: string]: any }, after: { [field: string]: any }): FieldChange[] {
+    return TRACKED_FIELDS
+      .filter(field => field in after)
+      .map(field => ({
+        field,
+        oldValue: this.summarize(field, before[field]),
+        newValue: this.summarize(field, after[field])
+      }))
+      .filter(change => change.oldValue !== change.newValue);
+  }
+
+  /**
+   * Retrieves the history of a transaction of the current user, oldest entry first.
+   *
+   * @param documentNumber - The document number of the transaction.
+   * @returns An observable that emits the history entries.
+   */
+  getHistory(documentNumber: string): Observable<TransactionHistoryEntry[]> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (user) {
+          return this.firestore.collection('transactions').doc(`${user.uid}_${documentNumber}`)
+            .collection<TransactionHistoryEntry>('history', ref => ref.orderBy('changedAtInMillis', 'asc'))
+            .valueChanges({ idField: 'id' });
+        } else {
+          return new Observable<TransactionHistoryEntry[]>(); // Return an empty observable if no user is logged in
+        }
+      })
+    );
+  }
+
+  /**
+   * Retrieves the histories of several transactions once, e.g. for the audit log of a report.
+   *
+   * @param documentNumbers - The document numbers of the transactions.
+   * @returns An observable that emits the history entries per document number.
+   */
+  getHistories(documentNumbers: string[]): Observable<{ [documentNumber: string]: TransactionHistoryEntry[] }> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (!user || documentNumbers.length === 0) {
+          return of({});
+        }
+
+        return forkJoin(documentNumbers.map(documentNumber =>
+          from(this.firestore.firestore.collection('transactions').doc(`${user.uid}_${documentNumber}`)
+            .collection('history').orderBy('changedAtInMillis', 'asc').get()).pipe(
+            map(snapshot => snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as TransactionHistoryEntry))
+          )
+        )).pipe(
+          map(histories => documentNumbers.reduce((result, documentNumber, i) => {
+            result[documentNumber] = histories[i];
+            return result;
+          }, {} as { [documentNumber: string]: TransactionHistoryEntry[] }))
+        );
+      })
+    );
+  }
+
+  /**
+   * Converts a field value into the value stored in the history.
+   * Attached receipts are not copied, only their kind is recorded.
+   */
+  private summarize(field: string, value: any): string | number | boolean | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    if (field === 'documentName' && typeof value === 'string' && value.startsWith('data:')) {
+      return `[${value.substring(5, value.indexOf(';')) || 'file'}]`;
+    }
+    if (field === 'attachments' && Array.isArray(value)) {
+      return value.length ? value.map(attachment => attachment.fileName).join(', ') : null;
+    }
+    if (field === 'date') {
+      return new Date(value).toISOString();
+    }
+    return value;
+  }
+}
@@ -0,0 +1,207 @@
+import { Injectable } from '@angular/core';
+import { AngularFirestore } from '@angular/fire/compat/firestore';
+import { Observable, combineLatest, from, of, throwError } from 'rxjs';
+import { concatMap, map, reduce, switchMap, take } from 'rxjs/operators';
+import { AuthService } from './auth-service.service';
+import firebase from 'firebase/compat/app';
+import { TrashItem } from '../trash-item.model';
+import { TransactionEntry } from '../transaction-entry.model';
+import { BudgetEntry } from '../budget-entry.model';
+import { TransactionHistoryService } from './transaction-history.service';
+import { PeriodLockService } from './period-lock.service';
+
+/**
+ * Number of days trashed records are kept until the user configures another period.
+ * Transactions are bookkeeping records with a retention duty of seven years (§ 132 BAO)
+ * and are never purged.
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/** Maximum number of deletes in one Firestore write batch. */
+const BATCH_SIZE = 500;
+
+/** A trashed category as stored in Firestore. Categories have no model of their own. */
+interface TrashedCategory {
+  name: string;
+  deletedAtInMillis?: number;
+}
+
+/** A trashed record as stored in Firestore, with the ID of its document. */
+type TrashedRecord = (TransactionEntry | BudgetEntry | TrashedCategory) & { docId: string };
+
+/** Firestore collection of each kind of trashed record. */
+const COLLECTIONS: { [type in TrashItem['type']]: string } = {
+  transaction: 'transactions',
+  budget: 'budgets',
+  category: 'categories'
+};
+
+/**
+ * TrashService manages the recycle bin ("Papierkorb"). Deleted transactions,
+ * budgets and categories are only flagged as deleted, so that they can be
+ * restored. Budgets and categories are purged for good by the user or after the
+ * retention period; transactions stay in the recycle bin to meet the retention duty.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TrashService {
+
+  constructor(
+    private firestore: AngularFirestore,
+    private authService: AuthService,
+    private historyService: TransactionHistoryService,
+    private periodLockService: PeriodLockService
+  ) { }
+
+  /**
+   * Returns the fields that move a record to the recycle bin.
+   *
+   * @returns The fields to update on the record.
+   */
+  trashFields(): { deleted: boolean, deletedAtInMillis: number } {
+    return { deleted: true, deletedAtInMillis: Date.now() };
+  }
+
+  /**
+   * Retrieves all records of the current user that are in the recycle bin.
+   *
+   * @returns An observable that emits the trashed records, most recently deleted first.
+   */
+  getTrash(): Observable<TrashItem[]> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (user) {
+          const types = Object.keys(COLLECTIONS) as TrashItem['type'][];
+          return combineLatest(types.map(type =>
+            this.firestore.collection<TransactionEntry | BudgetEntry | TrashedCategory>(COLLECTIONS[type], ref =>
+              ref.where('userId', '==', user.uid).where('deleted', '==', true)
+            ).valueChanges({ idField: 'docId' }).pipe(
+              map(records => records.map(record => this.toTrashItem(type, record)))
+            )
+          )).pipe(
+            map(lists => lists
+              .reduce((all, list) => all.concat(list), [] as TrashItem[])
+              .sort((a, b) => b.deletedAtInMillis - a.deletedAtInMillis))
+          );
+        } else {
+          return new Observable<TrashItem[]>(); // Return an empty observable if no user is logged in
+        }
+      })
+    );
+  }
+
+  /**
+   * Moves a record from the recycle bin back to its list.
+   * Restoring a transaction is recorded in its history; transactions dated
+   * in a locked period cannot be restored.
+   *
+   * @param item - The trashed record.
+   * @returns An observable that completes when the record is restored.
+   */
+  restore(item: TrashItem): Observable<void> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (!user) {
+          throw new Error('User not authenticated');
+        }
+
+        const docRef = this.firestore.firestore.collection(COLLECTIONS[item.type]).doc(item.id);
+        return from(this.firestore.firestore.runTransaction(async dbTransaction => {
+          if (item.type === 'transaction') {
+            const storedDoc = await dbTransaction.get(docRef);
+            await this.periodLockService.assertUnlocked(dbTransaction, user.uid, [storedDoc.data()?.['date']]);
+            dbTransaction.set(this.historyService.newEntryRef(item.id),
+              this.historyService.createEntry(user, 'restore', [{ field: 'deleted', oldValue: true, newValue: false }]));
+          }
+          dbTransaction.update(docRef, {
+            deleted: false,
+            deletedAtInMillis: firebase.firestore.FieldValue.delete()
+          });
+        }));
+      })
+    );
+  }
+
+  /**
+   * Deletes a budget or category from the recycle bin for good. Transactions
+   * cannot be purged: they have to be kept for seven years (§ 132 BAO).
+   *
+   * @param item - The trashed record.
+   * @returns An observable that completes when the record is deleted.
+   */
+  purge(item: TrashItem): Observable<void> {
+    if (!this.canPurge(item)) {
+      return throwError(() => new Error('Transactions are kept for the retention period and cannot be purged'));
+    }
+    return from(this.firestore.collection(COLLECTIONS[item.type]).doc(item.id).delete());
+  }
+
+  /**
+   * Returns whether a record may be deleted from the recycle bin for good.
+   *
+   * @param item - The trashed record.
+   * @returns False for transactions, which are subject to the retention duty.
+   */
+  canPurge(item: TrashItem): boolean {
+    return item.type !== 'transaction';
+  }
+
+  /**
+   * Deletes all budgets and categories whose retention period in the recycle bin is over.
+   * The retention period is read from the user's settings. Transactions are kept,
+   * so that the document numbering has no gaps and the retention duty is met.
+   * The records are deleted in batches of at most 500.
+   *
+   * @returns An observable that emits the number of purged records.
+   */
+  purgeExpired(): Observable<number> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap((user: firebase.User | null) => {
+        if (!user) {
+          return of(0);
+        }
+
+        return from(this.firestore.collection<{ trashRetentionDays?: number }>('settings').doc(user.uid).ref.get()).pipe(
+          switchMap(settingsDoc => {
+            const retentionDays = settingsDoc.data()?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+            const expiredBefore = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+            return this.getTrash().pipe(
+              take(1),
+              map(items => items.filter(item => this.canPurge(item) && item.deletedAtInMillis < expiredBefore))
+            );
+          }),
+          switchMap(expired => {
+            const chunks: TrashItem[][] = [];
+            for (let i = 0; i < expired.length; i += BATCH_SIZE) {
+              chunks.push(expired.slice(i, i + BATCH_SIZE));
+            }
+
+            return from(chunks).pipe(
+              concatMap(chunk => {
+                const batch = this.firestore.firestore.batch();
+                chunk.forEach(item => batch.delete(this.firestore.collection(COLLECTIONS[item.type]).doc(item.id).ref));
+                return from(batch.commit()).pipe(map(() => chunk.length));
+              }),
+              reduce((count, purged) => count + purged, 0)
+            );
+          })
+        );
+      })
+    );
+  }
+
+  /**
+   * Converts a trashed Firestore record into a trash item.
+   */
+  private toTrashItem(type: TrashItem['type'], record: TrashedRecord): TrashItem {
+    const item = { id: record.docId, type, deletedAtInMillis: record.deletedAtInMillis || 0 };
+    if ('documentNumber' in record) {
+      return { ...item, label: `${record.documentNumber}: ${record.description}`, amount: record.gross };
+    }
+    if ('title' in record) {
+      return { ...item, label: record.title || '', amount: record.amount };
+    }
+    return { ...item, label: record.name || '' };
+  }
+}
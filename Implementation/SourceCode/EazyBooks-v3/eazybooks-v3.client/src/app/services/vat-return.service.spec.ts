@@ -0,0 +1,98 @@
+import { TestBed } from '@angular/core/testing';
+
+import { VatReturnService } from './vat-return.service';
+import { TransactionEntry } from '../transaction-entry.model';
+
+describe('VatReturnService', () => {
+  let service: VatReturnService;
+
+  const transaction = (incomeExpenses: string, gross: number, net: number, vatRate?: number) => {
+    const entry = new TransactionEntry('', '2024-05-01', gross, net, '', '', incomeExpenses, 0);
+    entry.vatRate = vatRate;
+    if (vatRate != null) {
+      entry.vatAmount = Math.round((gross - net) * 100) / 100;
+    }
+    return entry;
+  };
+  const transactions = () => [
+    transaction('income', 1200, 1000, 20),
+    transaction('income', 110, 100, 10),
+    transaction('income', 50, 50, 0),
+    transaction('expense', 240, 200, 20),
+    transaction('expense', 120, 100) // Saved before VAT rates were introduced: 20% for expenses
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(VatReturnService);
+  });
+
+  it('should sum the revenue per VAT rate and the input tax', () => {
+    const vatReturn = service.calculate(transactions(), '2024-05', '2024-05');
+
+    expect(vatReturn.kennzahlen['000']).toBe(1150);
+    expect(vatReturn.kennzahlen['022']).toBe(1000);
+    expect(vatReturn.kennzahlen['029']).toBe(100);
+    expect(vatReturn.kennzahlen['020']).toBe(50);
+    expect(vatReturn.kennzahlen['060']).toBe(60);
+    expect(service.taxOf(vatReturn, '022')).toBe(200);
+    expect(service.taxOf(vatReturn, '029')).toBe(10);
+  });
+
+  it('should calculate the amount payable', () => {
+    const vatReturn = service.calculate(transactions(), '2024-05', '2024-05');
+
+    expect(vatReturn.outputTax).toBe(210);
+    expect(vatReturn.inputTax).toBe(60);
+    expect(vatReturn.payable).toBe(150);
+    expect(vatReturn.kennzahlen['095']).toBe(150);
+  });
+
+  it('should book 0% revenue of small businesses under Kennzahl 016', () => {
+    const vatReturn = service.calculate([transaction('income', 50, 50, 0)], '2024-05', '2024-05', true);
+
+    expect(vatReturn.kennzahlen['016']).toBe(50);
+    expect(vatReturn.kennzahlen['020']).toBeUndefined();
+    expect(vatReturn.kennzahlen['000']).toBe(50);
+    expect(vatReturn.payable).toBe(0);
+  });
+
+  it('should owe and deduct the tax of reverse-charge expenses and intra-EU acquisitions', () => {
+    const reverseCharge = transaction('expense', 1000, 1000, 20);
+    reverseCharge.reverseCharge = true;
+    const acquisition = transaction('expense', 500, 500, 10);
+    acquisition.intraEu = true;
+    const vatReturn = service.calculate([reverseCharge, acquisition], '2024-05', '2024-05');
+
+    expect(vatReturn.kennzahlen['057']).toBe(200);
+    expect(vatReturn.kennzahlen['066']).toBe(200);
+    expect(vatReturn.kennzahlen['070']).toBe(500);
+    expect(vatReturn.kennzahlen['073']).toBe(500);
+    expect(vatReturn.kennzahlen['065']).toBe(50);
+    expect(vatReturn.payable).toBe(0);
+  });
+
+  it('should export the Kennzahlen in the FinanzOnline XML format', () => {
+    const vatReturn = service.calculate(transactions(), '2024-04', '2024-06', true);
+    const xml = service.toXml(vatReturn, '12 345/6789');
+
+    expect(xml).toContain('<IDENTIFIKATIONSBEGRIFF>123456789</IDENTIFIKATIONSBEGRIFF>');
+    expect(xml).toContain('<ZRVON type="jahrmonat">2024-04</ZRVON>');
+    expect(xml).toContain('<ZRBIS type="jahrmonat">2024-06</ZRBIS>');
+    expect(xml).toContain('<KZ000 type="kz">1150.00</KZ000><STEUERFREI><KZ016 type="kz">50.00</KZ016></STEUERFREI>');
+    expect(xml).toContain('<VERSTEUERT><KZ022 type="kz">1000.00</KZ022><KZ029 type="kz">100.00</KZ029></VERSTEUERT>');
+    expect(xml).toContain('<VORSTEUER><KZ060 type="kz">60.00</KZ060></VORSTEUER>');
+    expect(xml).toContain('<SONSTIGES><KZ095 type="kz">150.00</KZ095></SONSTIGES>');
+    expect(xml).not.toContain('STEUERSCHULD');
+    expect(new DOMParser().parseFromString(xml, 'application/xml').getElementsByTagName('parsererror').length).toBe(0);
+  });
+
+  it('should escape the values written into the XML', () => {
+    const vatReturn = service.calculate([], '2024-01</ZRVON><KZ095>0', '2024-03 & "Q1"');
+    const xml = service.toXml(vatReturn, '123456789');
+
+    expect(xml).toContain('<ZRVON type="jahrmonat">2024-01&lt;/ZRVON&gt;&lt;KZ095&gt;0</ZRVON>');
+    expect(xml).toContain('<ZRBIS type="jahrmonat">2024-03 &amp; &quot;Q1&quot;</ZRBIS>');
+    expect(new DOMParser().parseFromString(xml, 'application/xml').getElementsByTagName('parsererror').length).toBe(0);
+  });
+});
@@ -0,0 +1,193 @@
+import { Injectable } from '@angular/core';
+import { TransactionEntry } from '../transaction-entry.model';
+import { VatReturn } from '../vat-return.model';
+import { VatService } from './vat.service';
+
+/** Kennzahlen of the U30 form with the translation key of their label, in the order of the form. */
+export const U30_KENNZAHLEN: { kennzahl: string, label: string }[] = [
+  { kennzahl: '000', label: 'KZ_000' },
+  { kennzahl: '017', label: 'KZ_017' },
+  { kennzahl: '016', label: 'KZ_016' },
+  { kennzahl: '020', label: 'KZ_020' },
+  { kennzahl: '021', label: 'KZ_021' },
+  { kennzahl: '022', label: 'KZ_022' },
+  { kennzahl: '006', label: 'KZ_006' },
+  { kennzahl: '029', label: 'KZ_029' },
+  { kennzahl: '057', label: 'KZ_057' },
+  { kennzahl: '070', label: 'KZ_070' },
+  { kennzahl: '072', label: 'KZ_072' },
+  { kennzahl: '008', label: 'KZ_008' },
+  { kennzahl: '073', label: 'KZ_073' },
+  { kennzahl: '060', label: 'KZ_060' },
+  { kennzahl: '065', label: 'KZ_065' },
+  { kennzahl: '066', label: 'KZ_066' },
+  { kennzahl: '095', label: 'KZ_095' }
+];
+
+/** Kennzahlen of taxable revenue per VAT rate. */
+const REVENUE_KENNZAHLEN: { [rate: number]: string } = { 20: '022', 13: '006', 10: '029' };
+
+/** Kennzahlen of intra-EU acquisitions per VAT rate. */
+const ACQUISITION_KENNZAHLEN: { [rate: number]: string } = { 20: '072', 13: '008', 10: '073' };
+
+/**
+ * VatReturnService aggregates the transactions of a period into the
+ * Kennzahlen of the Austrian VAT return (U30) and exports them in the
+ * XML format accepted by the FinanzOnline file upload.
+ *
+ * Income is booked as revenue by VAT rate; 0% income counts as tax-exempt
+ * small-business revenue (Kennzahl 016) for users applying the small-business
+ * exemption and as other tax-exempt revenue (020) otherwise, intra-EU supplies
+ * as 017 and reverse-charge services as 021.
+ * Expenses deduct their VAT as input tax (060); for intra-EU acquisitions and
+ * reverse-charge expenses the tax is owed and deducted at the same time.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class VatReturnService {
+
+  constructor(private vatService: VatService) { }
+
+  /**
+   * Calculates the VAT return of a period.
+   *
+   * @param transactions - The transactions of the period.
+   * @param periodFrom - First month of the period ("YYYY-MM").
+   * @param periodTo - Last month of the period ("YYYY-MM").
+   * @param smallBusiness - Whether the user applies the small-business exemption (§ 6 Abs. 1 Z 27 UStG).
+   * @returns The VAT return with the Kennzahlen and the amount payable.
+   */
+  calculate(transactions: TransactionEntry[], periodFrom: string, periodTo: string, smallBusiness: boolean = false): VatReturn {
+    const kennzahlen: { [kennzahl: string]: number } = {};
+    const add = (kennzahl: string, amount: number) => kennzahlen[kennzahl] = (kennzahlen[kennzahl] || 0) + amount;
+    let outputTax = 0;
+
+    transactions.forEach(transaction => {
+      const rate = this.vatService.rateOf(transaction);
+      const net = transaction.net ?? transaction.gross ?? 0;
+
+      if (transaction.incomeExpenses === 'income') {
+        add('000', net);
+        if (transaction.intraEu) {
+          add('017', net);
+        } else if (transaction.reverseCharge) {
+          add('021', net);
+        } else if (REVENUE_KENNZAHLEN[rate]) {
+          add(REVENUE_KENNZAHLEN[rate], net);
+        } else {
+          add(smallBusiness ? '016' : '020', net);
+        }
+      } else if (transaction.intraEu) {
+        // The tax on intra-EU acquisitions is owed and deductible as input tax at the same time
+        const tax = net * rate / 100;
+        add('070', net);
+        if (ACQUISITION_KENNZAHLEN[rate]) {
+          add(ACQUISITION_KENNZAHLEN[rate], net);
+        }
+        add('065', tax);
+        outputTax += tax;
+      } else if (transaction.reverseCharge) {
+        // With reverse charge the recipient owes the tax and deducts it as input tax
+        const tax = net * rate / 100;
+        add('057', tax);
+        add('066', tax);
+        outputTax += tax;
+      } else {
+        add('060', this.vatService.vatAmountOf(transaction));
+      }
+    });
+
+    Object.entries(REVENUE_KENNZAHLEN).forEach(([rate, kennzahl]) => outputTax += (kennzahlen[kennzahl] || 0) * Number(rate) / 100);
+    const inputTax = (kennzahlen['060'] || 0) + (kennzahlen['065'] || 0) + (kennzahlen['066'] || 0);
+    kennzahlen['095'] = outputTax - inputTax;
+
+    Object.keys(kennzahlen).forEach(kennzahl => kennzahlen[kennzahl] = this.round(kennzahlen[kennzahl]));
+    return {
+      periodFrom,
+      periodTo,
+      kennzahlen,
+      outputTax: this.round(outputTax),
+      inputTax: this.round(inputTax),
+      payable: kennzahlen['095']
+    };
+  }
+
+  /**
+   * Returns the tax on the revenue of a Kennzahl, e.g. 20% of Kennzahl 022.
+   *
+   * @param vatReturn - The VAT return.
+   * @param kennzahl - The Kennzahl of the revenue or acquisitions.
+   * @returns The tax, or null if the Kennzahl is not taxed at a fixed rate.
+   */
+  taxOf(vatReturn: VatReturn, kennzahl: string): number | null {
+    const entry = [...Object.entries(REVENUE_KENNZAHLEN), ...Object.entries(ACQUISITION_KENNZAHLEN)].find(([, kz]) => kz === kennzahl);
+    return entry ? this.round((vatReturn.kennzahlen[kennzahl] || 0) * Number(entry[0]) / 100) : null;
+  }
+
+  /**
+   * Creates the XML file for the FinanzOnline upload of the VAT return.
+   *
+   * @param vatReturn - The VAT return.
+   * @param taxNumber - The tax number (Steuernummer) of the business, 9 digits.
+   * @returns The XML document as string.
+   */
+  toXml(vatReturn: VatReturn, taxNumber: string): string {
+    const now = new Date();
+    const fastnr = taxNumber.replace(/\D/g, '');
+    const periodFrom = this.escapeXml(vatReturn.periodFrom);
+    const periodTo = this.escapeXml(vatReturn.periodTo);
+    const kz = (kennzahl: string) => vatReturn.kennzahlen[kennzahl] != null
+      ? `<KZ${kennzahl} type="kz">${vatReturn.kennzahlen[kennzahl].toFixed(2)}</KZ${kennzahl}>`
+      : '';
+    const group = (name: string, content: string) => content ? `<${name}>${content}</${name}>` : '';
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<ERKLAERUNGS_UEBERMITTLUNG>',
+      '<INFO_DATEN>',
+      '<ART_IDENTIFIKATIONSBEGRIFF>FASTNR</ART_IDENTIFIKATIONSBEGRIFF>',
+      `<IDENTIFIKATIONSBEGRIFF>${fastnr}</IDENTIFIKATIONSBEGRIFF>`,
+      '<PAKET_NR>1</PAKET_NR>',
+      `<DATUM_ERSTELLUNG type="datum">${now.toISOString().slice(0, 10)}</DATUM_ERSTELLUNG>`,
+      `<UHRZEIT_ERSTELLUNG type="uhrzeit">${now.toTimeString().slice(0, 8)}</UHRZEIT_ERSTELLUNG>`,
+      '<ANZAHL_ERKLAERUNGEN>1</ANZAHL_ERKLAERUNGEN>',
+      '</INFO_DATEN>',
+      '<ERKLAERUNG art="U30">',
+      '<SATZNR>1</SATZNR>',
+      '<ALLGEMEINE_DATEN>',
+      '<ANBRINGEN>U30</ANBRINGEN>',
+      `<ZRVON type="jahrmonat">${periodFrom}</ZRVON>`,
+      `<ZRBIS type="jahrmonat">${periodTo}</ZRBIS>`,
+      `<FASTNR>${fastnr}</FASTNR>`,
+      '</ALLGEMEINE_DATEN>',
+      group('LIEFERUNGEN_LEISTUNGEN_EIGENVERBRAUCH',
+        kz('000') + group('STEUERFREI', kz('017') + kz('016') + kz('020')) + kz('021') + group('VERSTEUERT', kz('022') + kz('029') + kz('006'))),
+      group('STEUERSCHULD', kz('057')),
+      group('INNERGEMEINSCHAFTLICHE_ERWERBE', kz('070') + group('VERSTEUERT_IGE', kz('072') + kz('073') + kz('008'))),
+      group('VORSTEUER', kz('060') + kz('065') + kz('066')),
+      group('SONSTIGES', kz('095')),
+      '</ERKLAERUNG>',
+      '</ERKLAERUNGS_UEBERMITTLUNG>'
+    ].filter(line => line).join('\n');
+  }
+
+  /**
+   * Escapes the characters with a special meaning in XML.
+   */
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  /**
+   * Rounds an amount to cents.
+   */
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
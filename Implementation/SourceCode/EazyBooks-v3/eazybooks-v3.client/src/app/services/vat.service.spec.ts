@@ -0,0 +1,67 @@
+import { TestBed } from '@angular/core/testing';
+
+import { VatService } from './vat.service';
+import { TransactionEntry } from '../transaction-entry.model';
+
+describe('VatService', () => {
+  let service: VatService;
+
+  const transaction = (incomeExpenses: string, gross: number, vatRate?: number) => {
+    const entry = new TransactionEntry('', '2024-05-01', gross, 0, '', '', incomeExpenses, 0);
+    entry.vatRate = vatRate;
+    return entry;
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(VatService);
+  });
+
+  it('should calculate net and VAT amount from the gross amount', () => {
+    const entry = transaction('expense', 119.99, 20);
+    service.calculateFromGross(entry);
+
+    expect(entry.net).toBe(99.99);
+    expect(entry.vatAmount).toBe(20);
+  });
+
+  it('should return to the same gross amount when calculating from the net amount', () => {
+    [[120, 20], [113, 13], [11.99, 10], [0.05, 20], [1234.57, 13]].forEach(([gross, rate]) => {
+      const entry = transaction('expense', gross, rate);
+      service.calculateFromGross(entry);
+      service.calculateFromNet(entry);
+
+      expect(entry.gross).toBe(gross);
+      expect(entry.net + entry.vatAmount!).toBeCloseTo(gross, 10);
+    });
+  });
+
+  it('should contain no VAT for reverse-charge and intra-EU invoices', () => {
+    const reverseCharge = transaction('expense', 500, 20);
+    reverseCharge.reverseCharge = true;
+    service.calculateFromGross(reverseCharge);
+    const intraEu = transaction('income', 500, 20);
+    intraEu.intraEu = true;
+    service.calculateFromGross(intraEu);
+
+    expect(reverseCharge.net).toBe(500);
+    expect(reverseCharge.vatAmount).toBe(0);
+    expect(reverseCharge.vatRate).toBe(20);
+    expect(intraEu.net).toBe(500);
+  });
+
+  it('should fall back to 20% for expenses and 0% for incomes saved without a VAT rate', () => {
+    expect(service.rateOf(transaction('expense', 120))).toBe(20);
+    expect(service.rateOf(transaction('income', 120))).toBe(0);
+    expect(service.rateOf(transaction('income', 120, 10))).toBe(10);
+    expect(service.rateOf(transaction('expense', 120, 0))).toBe(0);
+  });
+
+  it('should derive the VAT amount of transactions saved without one', () => {
+    const legacy = new TransactionEntry('', '2024-05-01', 120, 100, '', '', 'expense', 0);
+    expect(service.vatAmountOf(legacy)).toBe(20);
+
+    legacy.vatAmount = 19.99;
+    expect(service.vatAmountOf(legacy)).toBe(19.99);
+  });
+});
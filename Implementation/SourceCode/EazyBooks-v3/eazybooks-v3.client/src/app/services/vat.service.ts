@@ -0,0 +1,92 @@
+import { Injectable } from '@angular/core';
+import { TransactionEntry } from '../transaction-entry.model';
+
+/** Austrian VAT rates in percent: standard, reduced (13% and 10%) and exempt. */
+export const VAT_RATES = [20, 13, 10, 0];
+
+/** VAT rate preselected for new transactions. */
+export const DEFAULT_VAT_RATE = 20;
+
+/**
+ * VatService calculates the net amount, gross amount and VAT amount of a
+ * transaction from its VAT rate. For reverse-charge and intra-EU transactions
+ * the invoice contains no VAT, so gross equals net; the tax owed by the
+ * recipient is computed from the net amount in the VAT return.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class VatService {
+
+  constructor() { }
+
+  /**
+   * Returns the VAT rate of a transaction. Transactions saved before VAT rates
+   * were introduced were calculated with 20% for expenses and 0% for income.
+   *
+   * @param transaction - The transaction.
+   * @returns The VAT rate in percent.
+   */
+  rateOf(transaction: Partial<TransactionEntry>): number {
+    if (transaction.vatRate != null) {
+      return transaction.vatRate;
+    }
+    return transaction.incomeExpenses === 'expense' ? 20 : 0;
+  }
+
+  /**
+   * Returns whether the invoice amount of a transaction contains no VAT.
+   *
+   * @param transaction - The transaction.
+   */
+  isVatFree(transaction: Partial<TransactionEntry>): boolean {
+    return !!transaction.reverseCharge || !!transaction.intraEu;
+  }
+
+  /**
+   * Sets net amount and VAT amount of a transaction from its gross amount.
+   *
+   * @param transaction - The transaction to update.
+   */
+  calculateFromGross(transaction: TransactionEntry): void {
+    const rate = this.isVatFree(transaction) ? 0 : this.rateOf(transaction);
+    const gross = transaction.gross || 0;
+    transaction.net = this.round(gross / (1 + rate / 100));
+    transaction.vatAmount = this.round(gross - transaction.net);
+    transaction.vatRate = this.rateOf(transaction);
+  }
+
+  /**
+   * Sets gross amount and VAT amount of a transaction from its net amount.
+   *
+   * @param transaction - The transaction to update.
+   */
+  calculateFromNet(transaction: TransactionEntry): void {
+    const rate = this.isVatFree(transaction) ? 0 : this.rateOf(transaction);
+    const net = transaction.net || 0;
+    transaction.vatAmount = this.round(net * rate / 100);
+    transaction.gross = this.round(net + transaction.vatAmount);
+    transaction.vatRate = this.rateOf(transaction);
+  }
+
+  /**
+   * Returns the VAT amount of a transaction, calculated from its rate for
+   * transactions saved before the VAT amount was stored.
+   *
+   * @param transaction - The transaction.
+   * @returns The VAT contained in the gross amount.
+   */
+  vatAmountOf(transaction: TransactionEntry): number {
+    if (transaction.vatAmount != null) {
+      return transaction.vatAmount;
+    }
+    return this.round((transaction.gross || 0) - (transaction.net ?? transaction.gross ?? 0));
+  }
+
+  /**
+   * Rounds an amount to cents.
+   */
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
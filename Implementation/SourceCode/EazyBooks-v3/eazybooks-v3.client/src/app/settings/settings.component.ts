@@ -3,7 +3,11 @@ import { Observable } from 'rxjs';
 import { SettingsService } from '../services/settings.service';
 import { AuthService } from '../services/auth-service.service';
 import { TranslateService } from '@ngx-translate/core';
+import { DEFAULT_DOCUMENT_NUMBER_FORMAT, TransactionServiceComponent } from '../transaction-service/transaction-service.component';
 import { Renderer2 } from '@angular/core';
+import { DEFAULT_SMALL_BUSINESS_THRESHOLD, DEFAULT_SMALL_BUSINESS_TOLERANCE } from '../services/small-business.service';
+import { DEFAULT_SVS_PARAMETERS, SvsParameters, SvsService } from '../services/svs.service';
+import { CategoriesService } from '../services/categories.service';
 
 /**
  * SettingsComponent handles user settings, including theme, language,
@@ -19,7 +23,12 @@ export class SettingsComponent implements OnInit {
     theme: 'light',
     language: 'de',
     notifications: false,
-    twoFactorAuth: false
+    twoFactorAuth: false,
+    documentNumberFormat: DEFAULT_DOCUMENT_NUMBER_FORMAT,
+    taxNumber: '',
+    smallBusiness: false,
+    smallBusinessThreshold: DEFAULT_SMALL_BUSINESS_THRESHOLD,
+    smallBusinessTolerance: DEFAULT_SMALL_BUSINESS_TOLERANCE
   };
 
   user: any = {
@@ -29,6 +38,9 @@ export class SettingsComponent implements OnInit {
     confirmPassword: '' // Added confirmPassword for confirmation logic
   };
 
+  svs: SvsParameters = { ...DEFAULT_SVS_PARAMETERS }; // Rates and bases of the SVS estimate
+  categories: any[] = []; // Categories to choose the one of the SVS contributions from
+
   showPassword = false; // Flag to toggle password visibility
   showConfirmPassword = false; // Flag to toggle confirm password visibility
 
@@ -36,13 +48,18 @@ export class SettingsComponent implements OnInit {
     private settingsService: SettingsService,
     private authService: AuthService,
     private translate: TranslateService,
-    private renderer: Renderer2
+    private renderer: Renderer2,
+    private transactionService: TransactionServiceComponent,
+    private svsService: SvsService,
+    private categoriesService: CategoriesService
   ) {
     this.translate.setDefaultLang('de'); // Set default language to German
   }
 
   ngOnInit(): void {
     this.loadSettings(); // Load user settings when component initializes
+    this.svsService.getParameters().subscribe(parameters => this.svs = parameters);
+    this.categoriesService.getCategories().subscribe(categories => this.categories = categories);
   }
 
   /**
@@ -54,7 +71,12 @@ export class SettingsComponent implements OnInit {
         this.settings = {
           theme: data.theme || 'light',
           language: data.language || 'de',
-          notifications: data.notifications || false
+          notifications: data.notifications || false,
+          documentNumberFormat: data.documentNumberFormat || DEFAULT_DOCUMENT_NUMBER_FORMAT,
+          taxNumber: data.taxNumber || '',
+          smallBusiness: data.smallBusiness || false,
+          smallBusinessThreshold: data.smallBusinessThreshold ?? DEFAULT_SMALL_BUSINESS_THRESHOLD,
+          smallBusinessTolerance: data.smallBusinessTolerance ?? DEFAULT_SMALL_BUSINESS_TOLERANCE
         };
         // Load user-related settings
         this.user.name = data.user?.name || '';
@@ -139,6 +161,78 @@ export class SettingsComponent implements OnInit {
     });
   }
 
+  /**
+   * Returns an example document number for the entered format.
+   */
+  get documentNumberExample(): string {
+    return this.transactionService.formatDocumentNumber(this.settings.documentNumberFormat || DEFAULT_DOCUMENT_NUMBER_FORMAT,
+      new Date().getFullYear().toString(), 1);
+  }
+
+  /**
+   * Saves the document number format. Formats without counter token are rejected,
+   * because they would not produce unique numbers.
+   */
+  saveDocumentNumberFormat(): void {
+    if (!/\{N+\}/.test(this.settings.documentNumberFormat)) {
+      alert(this.translate.instant('DOCUMENT_NUMBER_FORMAT_INVALID')); // Alert if the counter token is missing
+      return;
+    }
+    this.saveOtherSettings({ documentNumberFormat: this.settings.documentNumberFormat });
+  }
+
+  /**
+   * Saves the tax number (Steuernummer) used for the FinanzOnline upload.
+   * It consists of the two-digit tax office number and seven digits.
+   */
+  saveTaxNumber(): void {
+    const digits = (this.settings.taxNumber || '').replace(/\D/g, '');
+    if (digits && digits.length !== 9) {
+      alert(this.translate.instant('TAX_NUMBER_INVALID')); // Alert if the tax number has not 9 digits
+      return;
+    }
+    this.saveOtherSettings({ taxNumber: this.settings.taxNumber });
+  }
+
+  /**
+   * Saves whether the small-business exemption is applied and its revenue limit.
+   * Invalid amounts are reset to the statutory defaults.
+   */
+  saveSmallBusinessSettings(): void {
+    if (!(this.settings.smallBusinessThreshold > 0)) {
+      this.settings.smallBusinessThreshold = DEFAULT_SMALL_BUSINESS_THRESHOLD;
+    }
+    if (!(this.settings.smallBusinessTolerance >= 0)) {
+      this.settings.smallBusinessTolerance = DEFAULT_SMALL_BUSINESS_TOLERANCE;
+    }
+    this.saveOtherSettings({
+      smallBusiness: this.settings.smallBusiness,
+      smallBusinessThreshold: this.settings.smallBusinessThreshold,
+      smallBusinessTolerance: this.settings.smallBusinessTolerance
+    });
+  }
+
+  /**
+   * Saves the parameters of the SVS contribution estimate.
+   * Invalid values are reset to the defaults.
+   */
+  saveSvsParameters(): void {
+    const numericFields = ['pensionRate', 'healthRate', 'provisionRate', 'accidentPerMonth', 'minimumBase', 'maximumBase'] as const;
+    const svs: SvsParameters = { ...this.svs };
+    numericFields.forEach(field => {
+      if (!(svs[field] >= 0)) {
+        svs[field] = DEFAULT_SVS_PARAMETERS[field];
+      }
+    });
+    if (svs.maximumBase < svs.minimumBase) {
+      svs.maximumBase = svs.minimumBase;
+    }
+    this.svs = svs;
+    this.svsService.saveParameters(this.svs).subscribe({
+      error: (err) => console.error('Error saving SVS parameters:', err)
+    });
+  }
+
   /**
    * Updates the application's theme based on the selected theme.
    * 
@@ -0,0 +1,36 @@
+/**
+ * Represents content shared into EazyBooks from another app (Web Share Target).
+ * The service worker parks it in IndexedDB until the user is signed in and
+ * a transaction draft has been opened for it.
+ */
+export interface SharedDraft {
+  /**
+   * Optional: The IndexedDB key of the draft.
+   */
+  id?: number;
+
+  /**
+   * Title of the shared content (e.g. the subject of an e-mail).
+   */
+  title: string;
+
+  /**
+   * Text of the shared content.
+   */
+  text: string;
+
+  /**
+   * URL of the shared content.
+   */
+  url: string;
+
+  /**
+   * The shared receipt files (PDFs or images).
+   */
+  files: File[];
+
+  /**
+   * Time the content was shared in milliseconds since epoch.
+   */
+  receivedAtInMillis: number;
+}
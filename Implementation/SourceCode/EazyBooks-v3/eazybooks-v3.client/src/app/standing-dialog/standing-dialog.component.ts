@@ -1,23 +1,34 @@
-import { Component, Inject, OnInit } from '@angular/core';
+import { Component, Inject, OnDestroy, OnInit } from '@angular/core';
 import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+import { Subscription } from 'rxjs';
 import { TransactionEntry } from '../transaction-entry.model';
-import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
 import { CategoriesService } from '../services/categories.service';
+import { VatService, VAT_RATES, DEFAULT_VAT_RATE } from '../services/vat.service';
+import { StandingOrderService, REPEAT_INTERVALS, isValidIntervalMonths } from '../services/standing-order.service';
+import { StandingOrder } from '../standing-order.model';
+import { ReceiptStorageService, ATTACHMENT_KINDS } from '../services/receipt-storage.service';
 
 /**
- * TransactionDialogComponent handles the dialog for adding or updating a transaction.
- * It allows users to enter transaction details and select categories.
+ * StandingDialogComponent handles the dialog for adding or editing a standing order.
+ * The standing order is stored as a template; the dialog closes as soon as it
+ * is stored, its due transactions are booked by the StandingOrderService right
+ * afterwards and whenever the app starts.
+ * Editing changes the future occurrences only.
  */
 @Component({
   selector: 'app-standing-dialog',
   templateUrl: './standing-dialog.component.html',
   styleUrls: ['./standing-dialog.component.css']
 })
-export class StandingDialogComponent implements OnInit {
+export class StandingDialogComponent implements OnInit, OnDestroy {
 
   transaction: TransactionEntry = new TransactionEntry('', '', 0, 0, '', '', '', 0); // Initialize with default values
   categories: any[] = []; // List of categories for the transaction
-  imageName: string = ''; // Store the name of the uploaded image file
+  uploading = 0; // Number of receipts being uploaded
+  attachmentKinds = ATTACHMENT_KINDS; // Kinds of attachments with their translation keys
+  vatRates = VAT_RATES; // Selectable VAT rates in percent
+  repeatIntervals = REPEAT_INTERVALS; // Selectable repeat intervals
+  endDate?: Date; // Optional last due date of the standing order
 
   quarterlyOptions = [
     { name: 'QUARTER_1', value: 'Q1' },
@@ -26,26 +37,49 @@ export class StandingDialogComponent implements OnInit {
     { name: 'QUARTER_4', value: 'Q4' }
   ];
 
+  private subscription: Subscription = new Subscription(); // Subscription to handle multiple observables
+
   constructor(
     public dialogRef: MatDialogRef<StandingDialogComponent>, // Reference to the dialog
-    @Inject(MAT_DIALOG_DATA) public data: any, // Injected data passed to the dialog
-    private transactionService: TransactionServiceComponent, // Service for transaction operations
-    private categoriesService: CategoriesService // Service for category operations
+    @Inject(MAT_DIALOG_DATA) public data: { order?: StandingOrder }, // Standing order to edit, if any
+    private standingOrderService: StandingOrderService, // Service for standing order operations
+    private categoriesService: CategoriesService, // Service for category operations
+    private vatService: VatService, // Service for VAT calculations
+    private receiptStorageService: ReceiptStorageService // Service for storing receipts
   ) {
-    this.transaction = data || new TransactionEntry('', '', 0, 0, '', '', '', Date.now()); // Initialize transaction from data or with default values
+    this.transaction = new TransactionEntry('', '', 0, 0, '', '', '', Date.now()); // Form values of the standing order
+    const order = data?.order;
+    if (order) {
+      Object.assign(this.transaction, {
+        date: order.startDate, gross: order.gross, net: order.net, description: order.description,
+        category: order.category, incomeExpenses: order.incomeExpenses, documentName: order.documentName || '', attachments: order.attachments,
+        vatRate: order.vatRate, vatAmount: order.vatAmount, reverseCharge: order.reverseCharge, intraEu: order.intraEu,
+        repeatInterval: order.repeatInterval, intervalMonths: order.intervalMonths, dayOfMonth: order.dayOfMonth, quarter: order.quarter
+      });
+      this.endDate = order.endDate ? new Date(order.endDate) : undefined;
+    }
+    this.transaction.vatRate ??= order ? this.vatService.rateOf(this.transaction) : DEFAULT_VAT_RATE;
+    this.transaction.vatAmount ??= this.vatService.vatAmountOf(this.transaction);
   }
 
   ngOnInit(): void {
     this.loadCategories(); // Load categories on component initialization
   }
 
+  ngOnDestroy(): void {
+    // Unsubscribe from all subscriptions to avoid memory leaks
+    this.subscription.unsubscribe();
+  }
+
   /**
    * Loads categories from the CategoriesService and stores them in the component.
    */
   loadCategories(): void {
-    this.categoriesService.getCategories().subscribe((categories: any[]) => {
+    const categoriesSub = this.categoriesService.getCategories().subscribe((categories: any[]) => {
       this.categories = categories; // Assign loaded categories to the component's categories property
     });
+
+    this.subscription.add(categoriesSub);
   }
 
   /**
@@ -56,11 +90,25 @@ export class StandingDialogComponent implements OnInit {
   }
 
   /**
-   * Adds or updates the transaction based on whether it has a document number.
+   * Returns whether the selected interval is due on a day of the month.
+   */
+  get usesDayOfMonth(): boolean {
+    return ['monthly', 'everyNMonths'].includes(this.transaction.repeatInterval);
+  }
+
+  /**
+   * Returns whether an existing standing order is edited.
+   */
+  get editMode(): boolean {
+    return !!this.data?.order?.id;
+  }
+
+  /**
+   * Saves the standing order and books the transactions that are already due.
    * Validates required fields before proceeding.
    */
   addTransaction(): void {
-    if (!this.transaction.date || !this.transaction.gross || !this.transaction.description || !this.transaction.incomeExpenses) {
+    if (!this.transaction.date || !this.transaction.gross || !this.transaction.description || !this.transaction.incomeExpenses || !this.transaction.repeatInterval) {
       console.error('All fields are required'); // Log an error if required fields are missing
       return;
     }
@@ -72,96 +120,96 @@ export class StandingDialogComponent implements OnInit {
       return;
     }
 
-    // Check if the current date is after the next interval for the standing order
-    const currentDate = new Date();
-    const transactionDate = new Date(this.transaction.date); // Assuming the date is set for the first interval
-
-    let nextDueDate = this.calculateNextDueDate(transactionDate);
-    console.log('Next due date:', nextDueDate);
-    console.log('Current date:', currentDate);
-    if (currentDate >= nextDueDate) {
-      // If the current date is already after or equal to the due date, execute the transaction
-      this.saveTransaction();
-    } else {
-      // If the next due date is in the future, we wait for that
-      console.log('Next transaction is due on: ' + nextDueDate);
+    if (this.transaction.repeatInterval === 'everyNMonths' && !isValidIntervalMonths(this.transaction.intervalMonths)) {
+      console.error('Please specify the number of months for the standing order');
+      return;
     }
-  }
 
-  /**
-   * Calculates the next due date based on the repeat interval (monthly/quarterly).
-   * @param startDate The initial start date of the standing order.
-   */
-  calculateNextDueDate(startDate: Date): Date {
-    const dueDate = new Date(startDate); // Start with the initial date
-
-    if (this.transaction.repeatInterval === 'monthly') {
-      // For monthly, add one month to the start date
-      dueDate.setMonth(dueDate.getMonth() + 1);
-    } else if (this.transaction.repeatInterval === 'quarterly') {
-      // For quarterly, add three months to the start date
-      dueDate.setMonth(dueDate.getMonth() + 3);
+    if (this.endDate && new Date(this.endDate) < new Date(this.transaction.date)) {
+      console.error('The end date must not be before the start date');
+      return;
     }
 
-    // Set the same day of the month
-    dueDate.setDate(startDate.getDate());
-
-    return dueDate;
+    const order: StandingOrder = {
+      ...this.data?.order,
+      description: this.transaction.description,
+      category: this.transaction.category,
+      incomeExpenses: this.transaction.incomeExpenses,
+      gross: this.transaction.gross,
+      net: this.transaction.net,
+      vatRate: this.transaction.vatRate,
+      vatAmount: this.transaction.vatAmount,
+      reverseCharge: !!this.transaction.reverseCharge,
+      intraEu: !!this.transaction.intraEu,
+      documentName: this.transaction.documentName || '',
+      attachments: this.transaction.attachments || [],
+      repeatInterval: this.transaction.repeatInterval,
+      intervalMonths: this.transaction.repeatInterval === 'everyNMonths' ? this.transaction.intervalMonths : undefined,
+      dayOfMonth: this.usesDayOfMonth ? this.transaction.dayOfMonth || undefined : undefined,
+      quarter: this.transaction.repeatInterval === 'quarterly' ? this.transaction.quarter : undefined,
+      startDate: new Date(this.transaction.date).toISOString(),
+      endDate: this.endDate ? new Date(this.endDate).toISOString() : undefined,
+      createdAtInMillis: this.data?.order?.createdAtInMillis || Date.now()
+    };
+    const save = this.editMode ? this.standingOrderService.updateStandingOrder(order) : this.standingOrderService.addStandingOrder(order);
+
+    save.subscribe({
+      next: () => {
+        this.dialogRef.close(order); // Close the dialog and return the saved standing order
+        // The order is stored; failing bookings are caught up on the next start
+        this.standingOrderService.executeDue().subscribe({
+          error: (err) => console.error('Error booking due transactions:', err)
+        });
+      },
+      error: (err) => {
+        console.error('Error saving standing order:', err); // Log any error that occurs while saving
+      }
+    });
   }
 
   /**
-   * Saves the transaction (either adding or updating based on document number).
+   * Handles file input changes to upload the selected receipts to Firebase Storage
+   * and add their references to the attachments of the standing order.
+   * @param event - The file input change event
    */
-  saveTransaction(): void {
-    if (this.transaction.documentNumber) {
-      // Update the existing transaction
-      this.transactionService.updateTransaction(this.transaction).subscribe(
-        () => {
-          console.log('Transaction updated successfully'); // Log success message
-          this.dialogRef.close(this.transaction); // Close the dialog and return the updated transaction
-        },
-        error => {
-          console.error('Error updating transaction:', error); // Log any error that occurs during update
-        }
-      );
-    } else {
-      // Add a new transaction
-      this.transactionService.addTransaction(this.transaction).subscribe({
-        next: () => {
-          console.log('Transaction added successfully'); // Log success message
-          this.dialogRef.close(this.transaction); // Close the dialog and return the new transaction
+  onFileChange(event: any): void {
+    const files: File[] = Array.from(event.target.files || []);
+    files.forEach(file => {
+      this.uploading++;
+      this.receiptStorageService.upload(file).subscribe({
+        next: receipt => {
+          this.transaction.attachments = [...(this.transaction.attachments || []), receipt];
+          this.uploading--;
         },
         error: (err) => {
-          console.error('Error adding transaction:', err); // Log any error that occurs during addition
+          console.error('Error uploading receipt:', err);
+          this.uploading--;
         }
       });
-    }
+    });
+    event.target.value = ''; // Allow selecting the same file again
   }
 
   /**
-   * Handles file input changes to read the selected file and set the transaction document name.
-   * @param event - The file input change event
+   * Removes an attachment from the standing order. The file stays in Firebase Storage,
+   * as other transactions may refer to the same content.
+   * @param index - The index of the attachment
    */
-  onFileChange(event: any): void {
-    const file = event.target.files[0]; // Get the first selected file
-    if (file) {
-      const reader = new FileReader(); // Create a FileReader to read the file
-      reader.onload = (e: any) => {
-        this.transaction.documentName = e.target.result; // Set the document name to the file's data URL
-      };
-      reader.readAsDataURL(file); // Read the file as a data URL
-      this.imageName = file.name; // Store the name of the uploaded image
-    }
+  removeAttachment(index: number): void {
+    this.transaction.attachments = (this.transaction.attachments || []).filter((_, i) => i !== index);
   }
 
   /**
-   * Calculates the net amount based on the gross amount and whether the transaction is an expense or income.
+   * Calculates the net amount and the VAT amount from the gross amount and the VAT rate.
    */
   calculateNetAmount(): void {
-    if (this.transaction.incomeExpenses === 'expense') {
-      this.transaction.net = this.transaction.gross / 1.2; // Calculate net for expenses
-    } else {
-      this.transaction.net = this.transaction.gross; // Net is the same as gross for income
-    }
+    this.vatService.calculateFromGross(this.transaction);
+  }
+
+  /**
+   * Calculates the gross amount and the VAT amount from the net amount and the VAT rate.
+   */
+  calculateGrossAmount(): void {
+    this.vatService.calculateFromNet(this.transaction);
   }
 }
@@ -0,0 +1,130 @@
+import { Receipt } from './receipt.model';
+
+/**
+ * Represents a standing order ("Dauerauftrag"), the template from which
+ * recurring transactions are booked on their due dates.
+ */
+export interface StandingOrder {
+  /**
+   * Optional: A unique ID for the standing order.
+   */
+  id?: string;
+
+  /**
+   * Description of the booked transactions.
+   */
+  description: string;
+
+  /**
+   * Category of the booked transactions.
+   */
+  category: string;
+
+  /**
+   * Whether the booked transactions are 'income' or 'expense'.
+   */
+  incomeExpenses: string;
+
+  /**
+   * Gross amount of each booked transaction.
+   */
+  gross: number;
+
+  /**
+   * Net amount of each booked transaction.
+   */
+  net: number;
+
+  /**
+   * Optional: VAT rate in percent.
+   */
+  vatRate?: number;
+
+  /**
+   * Optional: VAT contained in the gross amount.
+   */
+  vatAmount?: number;
+
+  /**
+   * Optional: True if the recipient owes the VAT (Reverse-Charge).
+   */
+  reverseCharge?: boolean;
+
+  /**
+   * Optional: True for intra-EU supplies and acquisitions.
+   */
+  intraEu?: boolean;
+
+  /**
+   * Optional: Legacy receipt stored as base64 data URL, migrated to attachments.
+   */
+  documentName?: string;
+
+  /**
+   * Optional: Receipts in Firebase Storage attached to every booked transaction.
+   */
+  attachments?: Receipt[];
+
+  /**
+   * Recurrence of the standing order: 'weekly', 'biweekly', 'monthly', 'quarterly', 'yearly',
+   * 'everyNMonths' or 'lastBusinessDay' (last weekday of every month).
+   */
+  repeatInterval: string;
+
+  /**
+   * Optional: Months between two due dates of an 'everyNMonths' standing order.
+   */
+  intervalMonths?: number;
+
+  /**
+   * Optional: Day of the month on which the transactions are due (defaults to the day of the start date).
+   * In shorter months the transactions are due on the last day of the month.
+   */
+  dayOfMonth?: number;
+
+  /**
+   * Optional: Quarter in which a quarterly standing order begins ('Q1' to 'Q4').
+   */
+  quarter?: string;
+
+  /**
+   * First possible due date as an ISO string.
+   */
+  startDate: string;
+
+  /**
+   * Optional: Last possible due date as an ISO string.
+   */
+  endDate?: string;
+
+  /**
+   * Optional: Due date of the last booked transaction as an ISO string.
+   */
+  lastDueDate?: string;
+
+  /**
+   * Optional: Due dates that were not booked because their period was closed, as ISO strings.
+   */
+  skippedDueDates?: string[];
+
+  /**
+   * Optional: True while the standing order is paused; no transactions are booked.
+   */
+  paused?: boolean;
+
+  /**
+   * Optional: When the standing order was last resumed, as an ISO string.
+   * Occurrences due while it was paused are not booked.
+   */
+  resumedAt?: string;
+
+  /**
+   * Creation date in milliseconds since epoch.
+   */
+  createdAtInMillis: number;
+
+  /**
+   * User ID associated with the standing order.
+   */
+  userId?: string;
+}
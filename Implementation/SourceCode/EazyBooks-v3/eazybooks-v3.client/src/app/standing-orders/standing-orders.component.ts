@@ -0,0 +1,136 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { MatDialog } from '@angular/material/dialog';
+import { Subscription } from 'rxjs';
+import { TranslateService } from '@ngx-translate/core';
+import { StandingOrder } from '../standing-order.model';
+import { TransactionEntry } from '../transaction-entry.model';
+import { StandingOrderService, REPEAT_INTERVALS } from '../services/standing-order.service';
+import { StandingDialogComponent } from '../standing-dialog/standing-dialog.component';
+
+/**
+ * StandingOrdersComponent lists the standing orders with their next due date,
+ * amount and interval. A standing order can be paused, resumed, ended, edited
+ * for its future occurrences or deleted; the transactions it has booked stay
+ * in the list of transactions and can be shown per standing order.
+ */
+@Component({
+  selector: 'app-standing-orders',
+  templateUrl: './standing-orders.component.html',
+  styleUrls: ['./standing-orders.component.css']
+})
+export class StandingOrdersComponent implements OnInit, OnDestroy {
+
+  orders: StandingOrder[] = []; // Standing orders of the user
+  expandedOrderId: string | null = null; // Standing order whose bookings are shown
+  bookings: TransactionEntry[] = []; // Transactions booked by the expanded standing order
+  private bookingsSubscription?: Subscription; // Subscription of the shown bookings
+  private subscription: Subscription = new Subscription(); // Subscription to handle multiple observables
+
+  constructor(
+    private standingOrderService: StandingOrderService, // Service for standing orders
+    private dialog: MatDialog, // Dialog service for adding and editing standing orders
+    private translate: TranslateService // Translate service for internationalization
+  ) { }
+
+  ngOnInit(): void {
+    this.subscription.add(this.standingOrderService.getStandingOrders().subscribe(orders => {
+      this.orders = orders.sort((a, b) => a.description.localeCompare(b.description));
+    }));
+  }
+
+  ngOnDestroy(): void {
+    // Unsubscribe from all subscriptions to avoid memory leaks
+    this.subscription.unsubscribe();
+    this.bookingsSubscription?.unsubscribe();
+  }
+
+  /**
+   * Returns the next due date of a standing order, or null if it is paused or ended.
+   * @param order - The standing order
+   */
+  getNextDueDate(order: StandingOrder): Date | null {
+    return this.standingOrderService.nextDueDate(order);
+  }
+
+  /**
+   * Returns the translation key of the repeat interval of a standing order.
+   * @param order - The standing order
+   */
+  getIntervalLabel(order: StandingOrder): string {
+    return REPEAT_INTERVALS.find(interval => interval.value === order.repeatInterval)?.label || order.repeatInterval;
+  }
+
+  /**
+   * Returns the translation key of the state of a standing order.
+   * @param order - The standing order
+   */
+  getStatus(order: StandingOrder): string {
+    if (order.paused) {
+      return 'STANDING_STATUS_PAUSED';
+    }
+    return this.getNextDueDate(order) ? 'STANDING_STATUS_ACTIVE' : 'STANDING_STATUS_ENDED';
+  }
+
+  /**
+   * Opens the dialog for adding a standing order, or for editing the future occurrences of one.
+   * @param order - The standing order to edit (optional)
+   */
+  openStandingOrderDialog(order?: StandingOrder): void {
+    this.dialog.open(StandingDialogComponent, {
+      width: '500px',
+      data: { order }
+    });
+  }
+
+  /**
+   * Pauses or resumes a standing order.
+   * @param order - The standing order
+   */
+  togglePaused(order: StandingOrder): void {
+    this.standingOrderService.setPaused(order, !order.paused).subscribe({
+      error: (err) => console.error('Error pausing standing order:', err)
+    });
+  }
+
+  /**
+   * Ends a standing order after user confirmation; no further transactions are booked.
+   * @param order - The standing order
+   */
+  endSeries(order: StandingOrder): void {
+    if (confirm(this.translate.instant('CONFIRM_END_STANDING', { name: order.description }))) {
+      this.standingOrderService.endSeries(order).subscribe({
+        error: (err) => console.error('Error ending standing order:', err)
+      });
+    }
+  }
+
+  /**
+   * Deletes a standing order after user confirmation. The booked transactions are kept.
+   * @param order - The standing order
+   */
+  deleteOrder(order: StandingOrder): void {
+    if (confirm(this.translate.instant('CONFIRM_DELETE_STANDING', { name: order.description }))) {
+      this.standingOrderService.deleteStandingOrder(order).subscribe({
+        error: (err) => console.error('Error deleting standing order:', err)
+      });
+    }
+  }
+
+  /**
+   * Shows or hides the transactions booked by a standing order.
+   * @param order - The standing order
+   */
+  toggleBookings(order: StandingOrder): void {
+    this.bookingsSubscription?.unsubscribe();
+    this.bookings = [];
+    if (this.expandedOrderId === order.id) {
+      this.expandedOrderId = null;
+      return;
+    }
+
+    this.expandedOrderId = order.id || null;
+    this.bookingsSubscription = this.standingOrderService.getBookings(order).subscribe(bookings => {
+      this.bookings = bookings;
+    });
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Represents a single booking read from a bank statement export
+ * (CSV, CAMT.053 or MT940) before it is converted into a TransactionEntry.
+ */
+export interface StatementLine {
+  /**
+   * Booking date of the line.
+   */
+  date: Date;
+
+  /**
+   * Signed amount of the line: positive for credits (income),
+   * negative for debits (expenses).
+   */
+  amount: number;
+
+  /**
+   * Remittance text of the booking.
+   */
+  description: string;
+
+  /**
+   * Optional: Name of the counterparty (payer or payee).
+   */
+  counterpartyName?: string;
+
+  /**
+   * Optional: IBAN of the counterparty.
+   */
+  counterpartyIban?: string;
+}
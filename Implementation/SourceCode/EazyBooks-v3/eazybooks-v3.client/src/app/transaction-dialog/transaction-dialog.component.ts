@@ -1,8 +1,23 @@
-import { Component, Inject, OnInit } from '@angular/core';
-import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+import { Component, Inject, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { MAT_DIALOG_DATA, MatDialog, MatDialogRef } from '@angular/material/dialog';
 import { TransactionEntry } from '../transaction-entry.model';
 import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
 import { CategoriesService } from '../services/categories.service';
+import { DuplicateDetectorService } from '../services/duplicate-detector.service';
+import { TransactionHistoryService } from '../services/transaction-history.service';
+import { TransactionHistoryEntry } from '../transaction-history.model';
+import { TranslateService } from '@ngx-translate/core';
+import { PeriodLockService } from '../services/period-lock.service';
+import { VatService, VAT_RATES, DEFAULT_VAT_RATE } from '../services/vat.service';
+import { SmallBusinessService, SmallBusinessStatus } from '../services/small-business.service';
+import { ReceiptStorageService, ATTACHMENT_KINDS } from '../services/receipt-storage.service';
+import { AttachmentViewerComponent } from '../attachment-viewer/attachment-viewer.component';
+import { CameraCaptureComponent } from '../camera-capture/camera-capture.component';
+import { ReceiptOcrService, ReceiptOcrResult } from '../services/receipt-ocr.service';
+import { CategorizationRuleService } from '../services/categorization-rule.service';
+import { CategorizationRule } from '../categorization-rule.model';
+import { CategorySuggestionService, CategorySuggestion } from '../services/category-suggestion.service';
 
 /**
  * TransactionDialogComponent handles the dialog for adding or updating a transaction.
@@ -13,23 +28,92 @@ import { CategoriesService } from '../services/categories.service';
   templateUrl: './transaction-dialog.component.html',
   styleUrls: ['./transaction-dialog.component.css']
 })
-export class TransactionDialogComponent implements OnInit {
+export class TransactionDialogComponent implements OnInit, OnDestroy {
 
   transaction: TransactionEntry = new TransactionEntry('', '', 0, 0, '', '', '', 0); // Initialize with default values
   categories: any[] = []; // List of categories for the transaction
-  imageName: string = ''; // Store the name of the uploaded image file
+  uploading = 0; // Number of receipts being uploaded
+  recognizing = false; // Whether a receipt is being read by OCR
+  guessed: { [field: string]: boolean } = {}; // Fields prefilled by OCR that the user has not confirmed yet
+  rules: CategorizationRule[] = []; // Categorization rules applied to new transactions
+  appliedRule?: CategorizationRule; // Rule that has categorized the new transaction
+  private valuesBeforeRule: Partial<TransactionEntry> = {}; // Values the applied rule has overwritten, restored when it no longer matches
+  chosenFields: { [field: string]: boolean } = {}; // Fields chosen by the user, which rules do not overwrite
+  suggestions: CategorySuggestion[] = []; // Categories suggested for the description, most likely first
+  attachmentKinds = ATTACHMENT_KINDS; // Kinds of attachments with their translation keys
+  existingTransactions: TransactionEntry[] = []; // Transactions already stored for the user
+  duplicates: TransactionEntry[] = []; // Suspected duplicates of the new transaction
+  history: TransactionHistoryEntry[] = []; // Change history of an existing transaction
+  lockedPeriods: string[] = []; // Closed months ("YYYY-MM") in which no transaction can be saved
+  vatRates = VAT_RATES; // Selectable VAT rates in percent
+  smallBusinessStatus?: SmallBusinessStatus; // Revenue of the current year compared against the small-business limit
+  private subscription: Subscription = new Subscription(); // Subscription to handle multiple observables
+
+  // Translation keys of the fields shown in the change history
+  historyFieldKeys: { [field: string]: string } = {
+    date: 'DATE',
+    gross: 'AMOUNT',
+    net: 'NET_AMOUNT',
+    vatRate: 'VAT_RATE',
+    reverseCharge: 'REVERSE_CHARGE',
+    intraEu: 'INTRA_EU',
+    description: 'DESCRIPTION',
+    category: 'CATEGORY',
+    incomeExpenses: 'TYPE',
+    documentName: 'DOCUMENT',
+    attachments: 'ATTACHMENTS',
+    deleted: 'TRASH'
+  };
 
   constructor(
     public dialogRef: MatDialogRef<TransactionDialogComponent>, // Reference to the dialog
     @Inject(MAT_DIALOG_DATA) public data: any, // Injected data passed to the dialog
     private transactionService: TransactionServiceComponent, // Service for transaction operations
-    private categoriesService: CategoriesService // Service for category operations
+    private categoriesService: CategoriesService, // Service for category operations
+    private duplicateDetector: DuplicateDetectorService, // Service for finding duplicate bookings
+    private historyService: TransactionHistoryService, // Service for the change history
+    private translate: TranslateService, // Translate service for internationalization
+    private periodLockService: PeriodLockService, // Service for closed periods
+    private vatService: VatService, // Service for VAT calculations
+    private smallBusinessService: SmallBusinessService, // Service for monitoring the small-business limit
+    private receiptStorageService: ReceiptStorageService, // Service for storing receipts
+    private receiptOcrService: ReceiptOcrService, // Service for reading receipts
+    private ruleService: CategorizationRuleService, // Service for categorization rules
+    private suggestionService: CategorySuggestionService, // Service for learned category suggestions
+    private dialog: MatDialog // Dialog service for the attachment viewer and the camera
   ) {
     this.transaction = data || new TransactionEntry('', '', 0, 0, '', '', '', Date.now()); // Initialize transaction from data or with default values
+    this.transaction.vatRate ??= this.transaction.documentNumber ? this.vatService.rateOf(this.transaction) : DEFAULT_VAT_RATE;
+    this.transaction.vatAmount ??= this.vatService.vatAmountOf(this.transaction);
   }
 
   ngOnInit(): void {
     this.loadCategories(); // Load categories on component initialization
+    this.suggestionService.startTraining(); // Learn from the booking history, kept up to date while the app runs
+    this.subscription.add(this.periodLockService.getLockedPeriods().subscribe(lockedPeriods => {
+      this.lockedPeriods = lockedPeriods; // Saving is disabled for dates in locked periods
+    }));
+    if (!this.transaction.documentNumber) {
+      this.subscription.add(this.transactionService.getTransactions().subscribe((transactions: TransactionEntry[]) => {
+        this.existingTransactions = transactions; // Needed to warn about duplicates of new transactions
+      }));
+      this.subscription.add(this.smallBusinessService.getStatus(new Date().getFullYear()).subscribe(status => {
+        this.smallBusinessStatus = status; // Needed to warn before a new income exceeds the small-business limit
+      }));
+      this.subscription.add(this.ruleService.getRules().subscribe(rules => {
+        this.rules = rules; // Needed to categorize the new transaction automatically
+        this.applyRules();
+      }));
+    } else {
+      this.subscription.add(this.historyService.getHistory(this.transaction.documentNumber).subscribe(history => {
+        this.history = history; // Show the timeline of changes of an existing transaction
+      }));
+    }
+  }
+
+  ngOnDestroy(): void {
+    // Unsubscribe from all subscriptions to avoid memory leaks
+    this.subscription.unsubscribe();
   }
 
   /**
@@ -41,6 +125,27 @@ export class TransactionDialogComponent implements OnInit {
     });
   }
 
+  /**
+   * Returns whether the date of the transaction lies in a locked period.
+   */
+  get dateLocked(): boolean {
+    return this.periodLockService.isLocked(this.lockedPeriods, this.transaction.date);
+  }
+
+  /**
+   * Returns the small-business status after booking the new income, if it
+   * would push the revenue over the limit; null otherwise.
+   */
+  get smallBusinessWarning(): SmallBusinessStatus | null {
+    const status = this.smallBusinessStatus;
+    if (!status?.enabled || this.transaction.documentNumber || this.transaction.incomeExpenses !== 'income'
+      || !this.transaction.date || new Date(this.transaction.date).getFullYear() !== status.year) {
+      return null;
+    }
+    const after = this.smallBusinessService.withIncome(status, Number(this.transaction.gross) || 0);
+    return (after.state === 'tolerance' || after.state === 'exceeded') && after.state !== status.state ? after : null;
+  }
+
   /**
    * Closes the transaction dialog.
    */
@@ -53,6 +158,11 @@ export class TransactionDialogComponent implements OnInit {
    * Validates required fields before proceeding.
    */
   addTransaction(): void {
+    if (this.dateLocked) {
+      console.error('The period of the transaction is locked'); // Locked periods cannot be changed
+      return;
+    }
+
     if (!this.transaction.date || !this.transaction.gross || !this.transaction.description || !this.transaction.incomeExpenses) {
       console.error('All fields are required'); // Log an error if required fields are missing
       return;
@@ -72,43 +182,270 @@ export class TransactionDialogComponent implements OnInit {
         }
       );
     } else {
-      // Add a new transaction
-      this.transactionService.addTransaction(this.transaction).subscribe({
-        next: () => {
-          console.log('Transaction added successfully'); // Log success message
-          this.dialogRef.close(this.transaction); // Close the dialog and return the new transaction
+      // Ask the user before saving a transaction that looks like an existing one
+      this.duplicates = this.duplicateDetector.findDuplicates(this.transaction, this.existingTransactions);
+      if (this.duplicates.length) {
+        return;
+      }
+      this.saveNewTransaction();
+    }
+  }
+
+  /**
+   * Saves the transaction as new transaction, even if it was suspected to be a duplicate.
+   */
+  saveNewTransaction(): void {
+    this.transactionService.addTransaction(this.transaction).subscribe({
+      next: () => {
+        console.log('Transaction added successfully'); // Log success message
+        this.dialogRef.close(this.transaction); // Close the dialog and return the new transaction
+      },
+      error: (err) => {
+        console.error('Error adding transaction:', err); // Log any error that occurs during addition
+      }
+    });
+  }
+
+  /**
+   * Merges the new transaction into the suspected duplicate instead of saving it.
+   */
+  mergeDuplicate(): void {
+    const merged = this.duplicateDetector.merge(this.duplicates[0], this.transaction);
+    this.transactionService.updateTransaction(merged).subscribe({
+      next: () => {
+        this.dialogRef.close(merged); // Close the dialog and return the merged transaction
+      },
+      error: (err) => {
+        console.error('Error merging transaction:', err); // Log any error that occurs during update
+      }
+    });
+  }
+
+  /**
+   * Formats a value of the change history for display.
+   * @param field - The name of the changed field
+   * @param value - The old or new value
+   * @returns The formatted value
+   */
+  formatHistoryValue(field: string, value: string | number | boolean | null): string {
+    if (value === null) {
+      return '–';
+    }
+    switch (field) {
+      case 'date':
+        return new Date(value as string).toLocaleDateString('de-AT');
+      case 'gross':
+      case 'net':
+        return `€ ${(value as number).toFixed(2)}`;
+      case 'incomeExpenses':
+        return this.translate.instant(value === 'income' ? 'INCOME_SINGLE' : 'EXPENSE');
+      case 'vatRate':
+        return `${value} %`;
+      case 'reverseCharge':
+      case 'intraEu':
+      case 'deleted':
+        return this.translate.instant(value ? 'YES' : 'NO');
+      default:
+        return String(value);
+    }
+  }
+
+  /**
+   * Handles file input changes to upload the selected receipts to Firebase Storage
+   * and add their references to the attachments of the transaction.
+   * @param event - The file input change event
+   */
+  onFileChange(event: any): void {
+    this.addFiles(Array.from(event.target.files || []));
+    event.target.value = ''; // Allow selecting the same file again
+  }
+
+  /**
+   * Opens the camera to photograph a receipt and attaches the result.
+   */
+  openCamera(): void {
+    const dialogRef = this.dialog.open(CameraCaptureComponent, {
+      width: '800px'
+    });
+
+    dialogRef.afterClosed().subscribe((file?: File) => {
+      if (file) {
+        this.addFiles([file]);
+      }
+    });
+  }
+
+  /**
+   * Uploads receipts and adds them to the attachments of the transaction.
+   * The first receipt of a new transaction is read by OCR to prefill the form.
+   * @param files - The receipt files
+   */
+  addFiles(files: File[]): void {
+    const receipt = files.find(file => file.type.startsWith('image/') || file.type === 'application/pdf');
+    if (receipt && !this.transaction.documentNumber && !this.transaction.attachments?.length) {
+      this.recognizeReceipt(receipt);
+    }
+    files.forEach(file => {
+      this.uploading++;
+      this.receiptStorageService.upload(file).subscribe({
+        next: receipt => {
+          this.transaction.attachments = [...(this.transaction.attachments || []), receipt];
+          this.uploading--;
         },
         error: (err) => {
-          console.error('Error adding transaction:', err); // Log any error that occurs during addition
+          console.error('Error uploading receipt:', err);
+          this.uploading--;
         }
       });
+    });
+  }
+
+  /**
+   * Reads a receipt by OCR and fills the recognized values into the form.
+   * Only values that are still empty, or the default VAT rate, are filled;
+   * fields chosen by the user are kept. Reading stops when the dialog closes.
+   * @param file - The receipt image or PDF
+   */
+  recognizeReceipt(file: File): void {
+    this.recognizing = true;
+    this.subscription.add(this.receiptOcrService.recognize(file).subscribe({
+      next: (result: ReceiptOcrResult) => {
+        this.recognizing = false;
+        if (result.total && !this.transaction.gross && !this.chosenFields['gross']) {
+          this.transaction.gross = result.total;
+          this.guessed['gross'] = true;
+        }
+        if (result.date && !this.transaction.date && !this.chosenFields['date']) {
+          this.transaction.date = result.date.toISOString();
+          this.guessed['date'] = true;
+        }
+        if (result.vatRate !== undefined && this.transaction.vatRate === DEFAULT_VAT_RATE && !this.chosenFields['vatRate']) {
+          this.transaction.vatRate = result.vatRate;
+          this.guessed['vatRate'] = true;
+        }
+        if (result.merchant && !this.transaction.description && !this.chosenFields['description']) {
+          this.transaction.description = result.merchant;
+          this.guessed['description'] = true;
+        }
+        this.calculateNetAmount();
+        this.applyRules();
+        this.updateSuggestions();
+      },
+      error: (err) => {
+        console.error('Error reading receipt:', err);
+        this.recognizing = false;
+      }
+    }));
+  }
+
+  /**
+   * Marks a field prefilled by OCR as confirmed once the user edits it.
+   * @param field - The name of the field
+   */
+  confirmGuess(field: string): void {
+    delete this.guessed[field];
+  }
+
+  /**
+   * Categorizes a new transaction by the first matching rule. Fields the user
+   * has chosen are kept. When the rule no longer matches, the values it has
+   * assigned are reverted. Rules are only checked once an amount or a
+   * description has been entered.
+   */
+  applyRules(): void {
+    if (this.transaction.documentNumber) {
+      return;
+    }
+
+    this.revertRule();
+    this.appliedRule = this.transaction.gross || this.transaction.description
+      ? this.ruleService.findRule(this.rules, this.transaction)
+      : undefined;
+    if (this.appliedRule) {
+      const skipFields = Object.keys(this.chosenFields);
+      const fields = (['category', 'vatRate', 'incomeExpenses'] as const)
+        .filter(field => this.appliedRule![field] != null && this.appliedRule![field] !== '' && !skipFields.includes(field));
+      this.valuesBeforeRule = Object.fromEntries(fields.map(field => [field, this.transaction[field]]));
+      this.ruleService.apply(this.appliedRule, this.transaction, skipFields);
     }
   }
 
   /**
-   * Handles file input changes to read the selected file and set the transaction document name.
-   * @param event - The file input change event
+   * Restores the fields the applied rule has assigned, unless the user has
+   * chosen them or they were changed otherwise since.
    */
-  onFileChange(event: any): void {
-    const file = event.target.files[0]; // Get the first selected file
-    if (file) {
-      const reader = new FileReader(); // Create a FileReader to read the file
-      reader.onload = (e: any) => {
-        this.transaction.documentName = e.target.result; // Set the document name to the file's data URL
-      };
-      reader.readAsDataURL(file); // Read the file as a data URL
-      this.imageName = file.name; // Store the name of the uploaded image
+  private revertRule(): void {
+    const rule = this.appliedRule;
+    if (!rule) {
+      return;
     }
+
+    const transaction = this.transaction as { [field: string]: any };
+    Object.entries(this.valuesBeforeRule).forEach(([field, value]) => {
+      if (!this.chosenFields[field] && transaction[field] === rule[field as keyof CategorizationRule]) {
+        transaction[field] = value;
+      }
+    });
+    this.valuesBeforeRule = {};
+    this.calculateNetAmount();
+  }
+
+  /**
+   * Updates the suggested categories for the current description.
+   */
+  updateSuggestions(): void {
+    const categoryNames = this.categories.length ? this.categories.map(category => category.name) : undefined;
+    this.suggestions = this.suggestionService.suggest(this.transaction.description, categoryNames);
+  }
+
+  /**
+   * Takes over a suggested category.
+   * @param suggestion - The chosen suggestion
+   */
+  chooseSuggestion(suggestion: CategorySuggestion): void {
+    this.transaction.category = suggestion.category;
+    this.chooseField('category');
+  }
+
+  /**
+   * Marks a field as chosen by the user, so that rules no longer change it.
+   * @param field - The name of the field
+   */
+  chooseField(field: string): void {
+    this.chosenFields[field] = true;
+  }
+
+  /**
+   * Opens the viewer for the attachments of the transaction.
+   * @param index - The index of the attachment to show first
+   */
+  openAttachment(index: number): void {
+    this.dialog.open(AttachmentViewerComponent, {
+      width: '800px',
+      data: { transaction: this.transaction, index, persist: false } // Replacements are saved with the transaction
+    });
+  }
+
+  /**
+   * Removes an attachment from the transaction. The file stays in Firebase Storage,
+   * as other transactions may refer to the same content.
+   * @param index - The index of the attachment
+   */
+  removeAttachment(index: number): void {
+    this.transaction.attachments = (this.transaction.attachments || []).filter((_, i) => i !== index);
   }
 
   /**
-   * Calculates the net amount based on the gross amount and whether the transaction is an expense or income.
+   * Calculates the net amount and the VAT amount from the gross amount and the VAT rate.
    */
   calculateNetAmount(): void {
-    if (this.transaction.incomeExpenses === 'expense') {
-      this.transaction.net = this.transaction.gross / 1.2; // Calculate net for expenses
-    } else {
-      this.transaction.net = this.transaction.gross; // Net is the same as gross for income
-    }
+    this.vatService.calculateFromGross(this.transaction);
+  }
+
+  /**
+   * Calculates the gross amount and the VAT amount from the net amount and the VAT rate.
+   */
+  calculateGrossAmount(): void {
+    this.vatService.calculateFromNet(this.transaction);
   }
 }
@@ -1,3 +1,5 @@
+import { Receipt } from './receipt.model';
+
 /**
  * Represents a financial transaction entry with details
  * such as document number, date, gross and net amounts,
@@ -12,12 +14,26 @@ export class TransactionEntry {
   public category: string;
   public incomeExpenses: string;
   public dateInMillis: number;
-  public documentName: string;
+  public documentName: string; // Legacy: receipt stored as base64 data URL, migrated to attachments
+  public attachments?: Receipt[]; // Receipts in Firebase Storage (invoice, delivery note, payment confirmation, ...)
+
+  // VAT: net = gross / (1 + vatRate / 100), unless the invoice contains no VAT (reverse charge, intra-EU)
+  public vatRate?: number; // VAT rate in percent (20, 13, 10 or 0)
+  public vatAmount?: number; // VAT contained in the gross amount
+  public reverseCharge?: boolean; // True if the recipient owes the VAT (Reverse-Charge)
+  public intraEu?: boolean; // True for intra-EU supplies and acquisitions (innergemeinschaftlich)
 
   // New fields for recurring transactions
-  public repeatInterval: string; // e.g. "monthly", "yearly", "quarterly"
+  public repeatInterval: string; // e.g. "weekly", "biweekly", "monthly", "quarterly", "yearly", "everyNMonths", "lastBusinessDay"
+  public intervalMonths?: number; // Months between two due dates for "everyNMonths" (if applicable)
   public dayOfMonth?: number; // The specific day of the month for monthly recurrence (if applicable)
   public quarter?: string; // The specific quarter (optional)
+  public standingOrderId?: string; // The standing order that booked the transaction (optional)
+  public counterpartyIban?: string; // IBAN of the payer or payee, known for imported bank statements (optional)
+
+  // Soft delete: trashed transactions stay in the recycle bin until they are restored
+  public deleted?: boolean; // True if the transaction is in the recycle bin
+  public deletedAtInMillis?: number; // When the transaction was moved to the recycle bin
 
   /**
    * Constructor to initialize a TransactionEntry object.
@@ -79,9 +95,15 @@ export class TransactionEntry {
       incomeExpenses: this.incomeExpenses,
       dateInMillis: this.dateInMillis,
       imagePath: this.documentName,
+      attachments: this.attachments,
+      vatRate: this.vatRate,
+      vatAmount: this.vatAmount,
+      reverseCharge: this.reverseCharge,
+      intraEu: this.intraEu,
       repeatInterval: this.repeatInterval,
       dayOfMonth: this.dayOfMonth,
-      quarter: this.quarter  // Include quarter
+      quarter: this.quarter,  // Include quarter
+      standingOrderId: this.standingOrderId
     };
   }
 
@@ -92,7 +114,7 @@ export class TransactionEntry {
    * @returns A TransactionEntry instance.
    */
   static fromObject(obj: any): TransactionEntry {
-    return new TransactionEntry(
+    const entry = new TransactionEntry(
       obj.documentNumber,
       obj.date,
       obj.gross,
@@ -106,6 +128,13 @@ export class TransactionEntry {
       obj.dayOfMonth,
       obj.quarter  // Handle quarter
     );
+    entry.vatRate = obj.vatRate;
+    entry.vatAmount = obj.vatAmount;
+    entry.reverseCharge = obj.reverseCharge;
+    entry.intraEu = obj.intraEu;
+    entry.standingOrderId = obj.standingOrderId;
+    entry.attachments = obj.attachments;
+    return entry;
   }
 
   /** 
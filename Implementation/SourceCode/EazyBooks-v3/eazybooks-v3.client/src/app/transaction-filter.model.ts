@@ -0,0 +1,45 @@
+/**
+ * Represents the criteria of the transaction filter panel.
+ * Empty values mean that the criterion is not applied.
+ */
+export interface TransactionFilter {
+  /**
+   * Free text that must be contained in the description (case-insensitive).
+   */
+  text: string;
+
+  /**
+   * Names of the categories to show. An empty list shows all categories.
+   */
+  categories: string[];
+
+  /**
+   * Type of the transactions to show: 'income', 'expense' or '' for both.
+   */
+  type: '' | 'income' | 'expense';
+
+  /**
+   * Minimum gross amount.
+   */
+  minAmount: number | null;
+
+  /**
+   * Maximum gross amount.
+   */
+  maxAmount: number | null;
+
+  /**
+   * First day of the date range in the format YYYY-MM-DD.
+   */
+  dateFrom: string;
+
+  /**
+   * Last day of the date range in the format YYYY-MM-DD.
+   */
+  dateTo: string;
+
+  /**
+   * Whether the transactions must have a receipt: 'yes', 'no' or '' for both.
+   */
+  hasReceipt: '' | 'yes' | 'no';
+}
@@ -0,0 +1,60 @@
+import { Component, EventEmitter, Input, OnInit, Output } from '@angular/core';
+import { TransactionFilter } from '../transaction-filter.model';
+import { TransactionFilterService } from '../services/transaction-filter.service';
+import { CategoriesService } from '../services/categories.service';
+
+/**
+ * TransactionFilterComponent shows the filter panel of the transaction list.
+ * It edits a copy of the given filter and emits it on every change.
+ */
+@Component({
+  selector: 'app-transaction-filter',
+  templateUrl: './transaction-filter.component.html',
+  styleUrls: ['./transaction-filter.component.css']
+})
+export class TransactionFilterComponent implements OnInit {
+
+  @Input() set filter(filter: TransactionFilter) {
+    this.current = { ...filter, categories: [...filter.categories] };
+  }
+
+  @Output() filterChange = new EventEmitter<TransactionFilter>(); // Emits the changed filter
+
+  current: TransactionFilter; // Filter currently being edited
+  categories: any[] = []; // List of categories for the category select
+
+  constructor(
+    private filterService: TransactionFilterService, // Service for filter operations
+    private categoriesService: CategoriesService // Service for category operations
+  ) {
+    this.current = this.filterService.createEmptyFilter();
+  }
+
+  ngOnInit(): void {
+    this.categoriesService.getCategories().subscribe((categories: any[]) => {
+      this.categories = categories; // Assign loaded categories to the component's categories property
+    });
+  }
+
+  /**
+   * Returns whether any filter criterion is set.
+   */
+  get active(): boolean {
+    return this.filterService.isActive(this.current);
+  }
+
+  /**
+   * Emits the edited filter.
+   */
+  onChange(): void {
+    this.filterChange.emit({ ...this.current, categories: [...this.current.categories] });
+  }
+
+  /**
+   * Clears all filter criteria.
+   */
+  reset(): void {
+    this.current = this.filterService.createEmptyFilter();
+    this.onChange();
+  }
+}
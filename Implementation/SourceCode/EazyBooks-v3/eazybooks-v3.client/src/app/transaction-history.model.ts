@@ -0,0 +1,60 @@
+/**
+ * Represents the change of a single field of a transaction.
+ */
+export interface FieldChange {
+  /**
+   * Name of the changed field (e.g. "gross", "category").
+   */
+  field: string;
+
+  /**
+   * Value before the change (null if the field was not set).
+   */
+  oldValue: string | number | boolean | null;
+
+  /**
+   * Value after the change (null if the field was removed).
+   */
+  newValue: string | number | boolean | null;
+}
+
+/**
+ * Represents an entry of the append-only change history of a transaction,
+ * stored in the "history" subcollection of the transaction document.
+ */
+export interface TransactionHistoryEntry {
+  /**
+   * Optional: The ID of the history document.
+   */
+  id?: string;
+
+  /**
+   * Kind of the change.
+   */
+  action: 'create' | 'update' | 'delete' | 'restore';
+
+  /**
+   * E-mail address (or user ID) of the user who made the change.
+   */
+  changedBy: string;
+
+  /**
+   * User ID of the user who made the change.
+   */
+  changedByUid: string;
+
+  /**
+   * Time of the change as an ISO string.
+   */
+  changedAt: string;
+
+  /**
+   * Time of the change in milliseconds since epoch.
+   */
+  changedAtInMillis: number;
+
+  /**
+   * The changed fields with their old and new values.
+   */
+  changes: FieldChange[];
+}
@@ -1,10 +1,14 @@
 import { Injectable } from '@angular/core';
 import { throwError, Observable, from } from 'rxjs';
 import { TransactionEntry } from '../transaction-entry.model';
-import { switchMap, map, tap, catchError } from 'rxjs/operators';
+import { switchMap, map, tap, catchError, concatMap } from 'rxjs/operators';
 import { AuthService } from '../services/auth-service.service';
 import { AngularFirestore } from '@angular/fire/compat/firestore';
 import firebase from 'firebase/compat/app';
+import { TrashService } from '../services/trash.service';
+import { TransactionHistoryService } from '../services/transaction-history.service';
+import { PeriodLockService } from '../services/period-lock.service';
+import { VatService } from '../services/vat.service';
 
 interface IncomeData {
   totalIncome: number;
@@ -19,92 +23,124 @@ interface ChartData {
 }
 
 interface CounterDocument {
-  counter: number;
+  counter?: number; // Running counter for formats without year
+  years?: { [year: string]: number }; // Counters per year for formats with year
 }
 
+/** Document number format used until the user configures another one. */
+export const DEFAULT_DOCUMENT_NUMBER_FORMAT = '{N}';
+
 @Injectable({
   providedIn: 'root'
 })
 export class TransactionServiceComponent {
-  private countNumber = 1; // Counter for document numbers
-
-  constructor(private firestore: AngularFirestore, private authService: AuthService) { }
+  constructor(
+    private firestore: AngularFirestore,
+    private authService: AuthService,
+    private trashService: TrashService,
+    private historyService: TransactionHistoryService,
+    private periodLockService: PeriodLockService,
+    private vatService: VatService
+  ) { }
 
   /**
    * Adds a new transaction to the Firestore database.
+   * The document number is allocated inside a Firestore transaction together with
+   * writing the transaction, so numbers are unique across devices and gapless.
+   * Transactions dated in a locked period are rejected.
+   * A transaction booked by a standing order advances the order's last due date
+   * in the same Firestore transaction; if the occurrence is already booked, nothing is written.
    * @param transaction - The transaction data to be added.
    * @returns An observable that completes when the transaction is added.
    */
   addTransaction(transaction: TransactionEntry): Observable<void> {
-    // Fetch the current user and update the user's document counter
     return from(this.authService.getCurrentUser()).pipe(
       switchMap(user => {
         if (user) {
           const userId = user.uid;
-          const counterDocRef = this.firestore.collection('transactionCounters').doc<CounterDocument>(userId);
-
-          // Retrieve the user's counter document, increment it, and use it as documentNumber
-          return from(counterDocRef.get()).pipe(
-            switchMap(counterDoc => {
-              let currentCounter = 0;
-              if (counterDoc.exists) {
-                const data = counterDoc.data();
-                currentCounter = data?.counter || 0;
-              }
 
-              // Increment the counter for the current user
-              const documentNumber = currentCounter + 1;
-
-              // Update the user's counter in Firestore
-              return from(counterDocRef.set({ counter: documentNumber }, { merge: true })).pipe(
-                switchMap(() => {
-                  // Set the documentNumber for the transaction
-                  transaction.documentNumber = documentNumber.toString();
-                  // Ensure dateInMillis is set
-                  if (!transaction.dateInMillis) {
-                    transaction.dateInMillis = new Date(transaction.date).getTime();
-                  }
-
-                  // Check for required fields
-                  if (!transaction.date || transaction.gross == null || transaction.net == null || !transaction.description || !transaction.incomeExpenses) {
-                    return new Observable<void>(observer => {
-                      observer.error(new Error('Transaction has undefined or null fields'));
-                    });
-                  }
-
-                  const documentId = `${userId}_${transaction.documentNumber}`;
-
-                  // Prepare transaction data for Firestore
-                  const transactionData = {
-                    documentNumber: transaction.documentNumber,
-                    date: new Date(transaction.date).toISOString(),
-                    gross: transaction.gross,
-                    net: transaction.net,
-                    description: transaction.description,
-                    category: transaction.category,
-                    incomeExpenses: transaction.incomeExpenses,
-                    dateInMillis: transaction.dateInMillis,
-                    documentName: transaction.documentName || '',
-                    userId: userId
-                  };
-
-                  // Log transaction data for debugging
-                  console.log('Transaction Data:', transactionData);
-
-                  // Save transaction to Firestore
-                  return from(this.firestore.collection('transactions').doc(documentId).set(transactionData)).pipe(
-                    tap(() => console.log('Transaction successfully saved:', transactionData)),
-                    catchError(error => {
-                      console.error('Error saving transaction:', error);
-                      return throwError(() => new Error('Failed to save transaction in Firestore'));
-                    })
-                  );
-                })
-              );
+          // Ensure dateInMillis is set
+          if (!transaction.dateInMillis) {
+            transaction.dateInMillis = new Date(transaction.date).getTime();
+          }
+
+          // Check for required fields
+          if (!transaction.date || transaction.gross == null || transaction.net == null || !transaction.description || !transaction.incomeExpenses) {
+            return throwError(() => new Error('Transaction has undefined or null fields'));
+          }
+
+          const db = this.firestore.firestore;
+          const counterDocRef = db.collection('transactionCounters').doc(userId);
+          const settingsDocRef = db.collection('settings').doc(userId);
+
+          return from(db.runTransaction(async dbTransaction => {
+            await this.periodLockService.assertUnlocked(dbTransaction, userId, [transaction.date]);
+            const standingOrderDocRef = transaction.standingOrderId ? db.collection('standingOrders').doc(transaction.standingOrderId) : null;
+            if (standingOrderDocRef) {
+              const lastDueDate = (await dbTransaction.get(standingOrderDocRef)).data()?.['lastDueDate'];
+              if (lastDueDate && new Date(lastDueDate) >= new Date(transaction.date)) {
+                return null; // The occurrence was already booked, e.g. on another device
+              }
+            }
+            const counterDoc = await dbTransaction.get(counterDocRef);
+            const settingsDoc = await dbTransaction.get(settingsDocRef);
+            const counters = (counterDoc.data() || {}) as CounterDocument;
+            const format: string = settingsDoc.data()?.['documentNumberFormat'] || DEFAULT_DOCUMENT_NUMBER_FORMAT;
+
+            // Formats with a year token are numbered per year, all others continue the running counter
+            const year = new Date(transaction.date).getFullYear().toString();
+            const perYear = /\{YY(YY)?\}/.test(format);
+            let counter = perYear ? (counters.years?.[year] || 0) : (counters.counter || 0);
+            let documentNumber: string;
+            let transactionDocRef: firebase.firestore.DocumentReference;
+
+            // Skip numbers still taken by older transactions (the counter used to be reset when all were deleted)
+            do {
+              counter++;
+              documentNumber = this.formatDocumentNumber(format, year, counter);
+              transactionDocRef = db.collection('transactions').doc(`${userId}_${documentNumber}`);
+            } while ((await dbTransaction.get(transactionDocRef)).exists);
+
+            // Prepare transaction data for Firestore
+            const transactionData = {
+              documentNumber: documentNumber,
+              date: new Date(transaction.date).toISOString(),
+              gross: transaction.gross,
+              net: transaction.net,
+              description: transaction.description,
+              category: transaction.category,
+              incomeExpenses: transaction.incomeExpenses,
+              dateInMillis: transaction.dateInMillis,
+              documentName: transaction.documentName || '',
+              attachments: transaction.attachments || [],
+              vatRate: this.vatService.rateOf(transaction),
+              vatAmount: this.vatService.vatAmountOf(transaction),
+              reverseCharge: !!transaction.reverseCharge,
+              intraEu: !!transaction.intraEu,
+              ...(transaction.standingOrderId ? { standingOrderId: transaction.standingOrderId } : {}),
+              ...(transaction.counterpartyIban ? { counterpartyIban: transaction.counterpartyIban } : {}),
+              userId: userId
+            };
+
+            if (standingOrderDocRef) {
+              dbTransaction.update(standingOrderDocRef, { lastDueDate: transactionData.date });
+            }
+            dbTransaction.set(counterDocRef, perYear ? { years: { [year]: counter } } : { counter }, { merge: true });
+            dbTransaction.set(transactionDocRef, transactionData);
+            dbTransaction.set(this.historyService.newEntryRef(transactionDocRef.id),
+              this.historyService.createEntry(user, 'create', this.historyService.diff({}, transactionData)));
+            return transactionData;
+          })).pipe(
+            tap(transactionData => {
+              if (transactionData) {
+                transaction.documentNumber = transactionData.documentNumber; // Set the documentNumber for the transaction
+                console.log('Transaction successfully saved:', transactionData);
+              }
             }),
+            map(() => undefined),
             catchError(error => {
-              console.error('Error retrieving or updating counter:', error);
-              return throwError(() => new Error('Failed to retrieve or update transaction counter'));
+              console.error('Error saving transaction:', error);
+              return throwError(() => new Error('Failed to save transaction in Firestore'));
             })
           );
         } else {
@@ -119,9 +155,27 @@ export class TransactionServiceComponent {
     );
   }
 
+  /**
+   * Formats a document number. Supported tokens are {YYYY} and {YY} for the year
+   * and {N}, {NN}, {NNN}, ... for the counter, zero-padded to the number of Ns.
+   * @param format - The document number format, e.g. "{YYYY}-{NNNN}".
+   * @param year - The year of the transaction.
+   * @param counter - The number of the transaction.
+   * @returns The formatted document number, e.g. "2025-0001".
+   */
+  formatDocumentNumber(format: string, year: string, counter: number): string {
+    return format
+      .replace(/\{YYYY\}/g, year)
+      .replace(/\{YY\}/g, year.slice(-2))
+      .replace(/\{(N+)\}/g, (_, digits: string) => counter.toString().padStart(digits.length, '0'))
+      .replace(/\//g, '-'); // Slashes are not allowed in document IDs
+  }
+
 
   /**
-   * Deletes a transaction from the Firestore database by its document number.
+   * Moves a transaction to the recycle bin by its document number.
+   * The number is not handed out again, so that the numbering stays unique.
+   * Transactions dated in a locked period cannot be deleted.
    * @param documentNumber - The document number of the transaction to delete.
    * @returns An observable that completes when the transaction is deleted.
    */
@@ -133,29 +187,18 @@ export class TransactionServiceComponent {
           // Erstelle den zusammengesetzten documentId
           const documentId = `${userId}_${documentNumber}`;
 
-          // Lösche die Transaktion anhand des zusammengesetzten documentId
-          return from(this.firestore.collection('transactions').doc(documentId).delete()).pipe(
-            switchMap(() => {
-              console.log(`Transaction ${documentId} deleted successfully`);
-
-              // Überprüfe, ob noch Transaktionen für den Benutzer vorhanden sind
-              const transactionsRef = this.firestore.collection('transactions', ref =>
-                ref.where('userId', '==', userId)
-              );
-
-              return transactionsRef.get().pipe(
-                switchMap(querySnapshot => {
-                  // Wenn keine Transaktionen mehr existieren, setze den Zähler zurück
-                  if (querySnapshot.empty) {
-                    const counterDocRef = this.firestore.collection('transactionCounters').doc<CounterDocument>(userId);
-                    return from(counterDocRef.set({ counter: 0 }, { merge: true })).pipe(
-                      tap(() => console.log(`Counter reset for user ${userId}`))
-                    );
-                  }
-                  return new Observable<void>(); // Keine Notwendigkeit, den Zähler zurückzusetzen, wenn noch Transaktionen vorhanden sind
-                })
-              );
-            }),
+          const db = this.firestore.firestore;
+          const transactionDocRef = db.collection('transactions').doc(documentId);
+
+          // Verschiebe die Transaktion anhand des zusammengesetzten documentId in den Papierkorb
+          return from(db.runTransaction(async dbTransaction => {
+            const storedDoc = await dbTransaction.get(transactionDocRef);
+            await this.periodLockService.assertUnlocked(dbTransaction, userId, [storedDoc.data()?.['date']]);
+
+            dbTransaction.update(transactionDocRef, this.trashService.trashFields());
+            dbTransaction.set(this.historyService.newEntryRef(documentId),
+              this.historyService.createEntry(user, 'delete', [{ field: 'deleted', oldValue: null, newValue: true }]));
+          })).pipe(
             catchError(error => {
               console.error('Error deleting transaction:', error);
               return throwError(() => new Error('Failed to delete transaction'));
@@ -174,7 +217,8 @@ export class TransactionServiceComponent {
 
 
   /**
-   * Retrieves all transactions for the current user from Firestore.
+   * Retrieves all transactions for the current user from Firestore,
+   * except the ones in the recycle bin.
    * @returns An observable containing an array of TransactionEntry objects.
    */
   getTransactions(): Observable<TransactionEntry[]> {
@@ -188,7 +232,9 @@ export class TransactionServiceComponent {
         if (user) {
           return this.firestore.collection<TransactionEntry>('transactions', ref =>
             ref.orderBy('dateInMillis', 'desc') && ref.where('userId', '==', userId)
-          ).valueChanges();
+          ).valueChanges().pipe(
+            map(transactions => transactions.filter(transaction => !transaction.deleted))
+          );
         } else {
           return new Observable<TransactionEntry[]>(); // Return an empty observable if no user is logged in
         }
@@ -217,7 +263,7 @@ export class TransactionServiceComponent {
               let totalIncome = 0;
               querySnapshot.forEach(doc => {
                 const data = doc.data() as TransactionEntry;
-                if (data && typeof data.gross === 'number') {
+                if (data && !data.deleted && typeof data.gross === 'number') {
                   totalIncome += data.gross; // Sum up gross income
                 }
               });
@@ -257,7 +303,7 @@ export class TransactionServiceComponent {
               let totalExpenses = 0;
               querySnapshot.forEach(doc => {
                 const data = doc.data() as TransactionEntry;
-                if (data && typeof data.gross === 'number') {
+                if (data && !data.deleted && typeof data.gross === 'number') {
                   totalExpenses += data.gross; // Sum up gross expenses
                 }
               });
@@ -276,6 +322,46 @@ export class TransactionServiceComponent {
     );
   }
 
+  /**
+   * Calculates the profit of a year up to today (net income minus net expenses).
+   * For past years this is the profit of the whole year.
+   * @param year - The year to calculate the profit for.
+   * @returns An observable that emits the year-to-date profit.
+   */
+  getYearToDateProfit(year: number): Observable<number> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap(user => {
+        if (user) {
+          const end = new Date(Math.min(new Date(year + 1, 0, 1).getTime(), Date.now()));
+          return from(this.firestore.collection('transactions', ref =>
+            ref.where('userId', '==', user.uid)
+              .where('date', '>=', new Date(year, 0, 1).toISOString())
+              .where('date', '<', end.toISOString())
+              .orderBy('date')
+          ).get()).pipe(
+            map(querySnapshot => {
+              let profit = 0;
+              querySnapshot.forEach(doc => {
+                const data = doc.data() as TransactionEntry;
+                if (data && !data.deleted) {
+                  const amount = Number(data.net ?? data.gross) || 0; // Profit is calculated from net amounts
+                  profit += data.incomeExpenses === 'income' ? amount : -amount;
+                }
+              });
+              return profit;
+            }),
+            catchError(error => {
+              console.error('Error fetching year-to-date profit:', error);
+              return throwError(() => new Error('Failed to fetch year-to-date profit'));
+            })
+          );
+        } else {
+          return new Observable<number>(); // Return an empty observable if no user is logged in
+        }
+      })
+    );
+  }
+
   /**
    * Retrieves chart data for a given year, including monthly income and expenses.
    * @param year - The year for which to fetch chart data.
@@ -305,6 +391,9 @@ export class TransactionServiceComponent {
               querySnapshot.forEach(doc => {
                 const data = doc.data() as TransactionEntry;
                 console.log('Document data:', data); // Debugging: Log document data
+                if (data.deleted) {
+                  return; // Trashed transactions are not part of the chart
+                }
 
                 const month = new Date(data.date).getMonth(); // Extract month from date
 
@@ -365,8 +454,10 @@ export class TransactionServiceComponent {
                 const data = doc.data();
                 console.log('Document data:', data); // Zeige die Daten der Transaktionen
               });
-              // Map results to an array of transactions
-              return querySnapshot.docs.map(doc => doc.data() as TransactionEntry);
+              // Map results to an array of transactions, without the ones in the recycle bin
+              return querySnapshot.docs
+                .map(doc => doc.data() as TransactionEntry)
+                .filter(transaction => !transaction.deleted);
             }),
             catchError(error => {
               console.error('Error fetching transactions between dates:', error);
@@ -382,6 +473,8 @@ export class TransactionServiceComponent {
 
   /**
    * Updates an existing transaction in the Firestore database.
+   * The old and new values of the changed fields are appended to the transaction's history.
+   * Transactions dated in a locked period, or moved into one, are rejected.
    * @param transaction - The transaction data with updated fields.
    * @returns An observable that completes when the transaction is updated.
    */
@@ -402,10 +495,32 @@ export class TransactionServiceComponent {
             category: transaction.category,
             incomeExpenses: transaction.incomeExpenses,
             dateInMillis: transaction.dateInMillis || new Date(transaction.date).getTime(),
-            documentName: transaction.documentName || '' // Ensure documentName is never undefined
+            documentName: transaction.documentName || '', // Ensure documentName is never undefined
+            attachments: transaction.attachments || [],
+            vatRate: this.vatService.rateOf(transaction),
+            vatAmount: this.vatService.vatAmountOf(transaction),
+            reverseCharge: !!transaction.reverseCharge,
+            intraEu: !!transaction.intraEu
           };
 
-          return from(this.firestore.collection('transactions').doc(transaction.documentNumber).update(transactionData)).pipe(
+          const documentId = `${user.uid}_${transaction.documentNumber}`;
+          const db = this.firestore.firestore;
+          const transactionDocRef = db.collection('transactions').doc(documentId);
+
+          // Update the transaction and record the changed fields in its history in one step
+          return from(db.runTransaction(async dbTransaction => {
+            const storedDoc = await dbTransaction.get(transactionDocRef);
+            if (!storedDoc.exists) {
+              throw new Error(`Transaction ${documentId} does not exist`);
+            }
+            await this.periodLockService.assertUnlocked(dbTransaction, user.uid, [storedDoc.data()?.['date'], transactionData.date]);
+
+            const changes = this.historyService.diff(storedDoc.data() || {}, transactionData);
+            dbTransaction.update(transactionDocRef, transactionData);
+            if (changes.length) {
+              dbTransaction.set(this.historyService.newEntryRef(documentId), this.historyService.createEntry(user, 'update', changes));
+            }
+          })).pipe(
             tap(() => console.log('Transaction successfully updated:', transactionData)),
             catchError(error => {
               console.error('Error updating transaction:', error);
@@ -422,4 +537,95 @@ export class TransactionServiceComponent {
       })
     );
   }
+
+  /**
+   * Updates several transactions at once and records the changes in their histories.
+   * Like updateTransaction, the stored transactions are read and checked against the
+   * locked periods in the same Firestore transaction that writes them and their history
+   * entries. Each Firestore transaction is atomic and holds up to 500 writes (250
+   * transactions with their history entries), larger selections are split into several.
+   * @param updates - The transactions as currently stored and the fields to change.
+   * @returns An observable that emits the transactions of each committed batch.
+   */
+  updateTransactionsBatch(updates: { transaction: TransactionEntry, changes: Partial<TransactionEntry> }[]): Observable<TransactionEntry[]> {
+    return this.commitInBatches(updates, update => update.transaction, update => [update.changes.date], (dbTransaction, user, update, storedDoc) => {
+      const changes = this.historyService.diff(storedDoc.data() || {}, update.changes);
+      dbTransaction.update(storedDoc.ref, update.changes);
+      if (changes.length) {
+        dbTransaction.set(this.historyService.newEntryRef(storedDoc.id), this.historyService.createEntry(user, 'update', changes));
+      }
+    }).pipe(
+      map(written => written.map(update => update.transaction))
+    );
+  }
+
+  /**
+   * Moves several transactions to the recycle bin at once and records the deletion in
+   * their histories, checked and written in one Firestore transaction like deleteTransaction.
+   * Each Firestore transaction is atomic and holds up to 500 writes (250 transactions with
+   * their history entries), larger selections are split into several.
+   * @param transactions - The transactions to delete.
+   * @returns An observable that emits the transactions of each committed batch.
+   */
+  deleteTransactionsBatch(transactions: TransactionEntry[]): Observable<TransactionEntry[]> {
+    return this.commitInBatches(transactions, transaction => transaction, () => [], (dbTransaction, user, _, storedDoc) => {
+      dbTransaction.update(storedDoc.ref, this.trashService.trashFields());
+      dbTransaction.set(this.historyService.newEntryRef(storedDoc.id),
+        this.historyService.createEntry(user, 'delete', [{ field: 'deleted', oldValue: null, newValue: true }]));
+    });
+  }
+
+  /**
+   * Writes the given items with Firestore transactions of at most 500 operations.
+   * Every transaction first reads the stored transactions of its items and the locked
+   * periods, so nothing more is written once one of the items is dated in a locked
+   * period, even if the period was closed while the items were being written. The
+   * transactions are committed one after another, so that after a failed one the
+   * caller knows exactly which items were written and which were not.
+   * @param items - The items to write.
+   * @param transactionOf - Returns the transaction an item changes.
+   * @param datesOf - Returns the new booking dates set by an item, besides the stored ones.
+   * @param write - Adds the two write operations (record and history entry) of one item to the transaction.
+   * @returns An observable that emits the items of each committed transaction.
+   */
+  private commitInBatches<T>(
+    items: T[],
+    transactionOf: (item: T) => TransactionEntry,
+    datesOf: (item: T) => (string | undefined)[],
+    write: (dbTransaction: firebase.firestore.Transaction, user: firebase.User, item: T, storedDoc: firebase.firestore.DocumentSnapshot) => void
+  ): Observable<T[]> {
+    return from(this.authService.getCurrentUser()).pipe(
+      switchMap(user => {
+        if (user) {
+          const chunks: T[][] = [];
+          for (let i = 0; i < items.length; i += 250) {
+            chunks.push(items.slice(i, i + 250));
+          }
+
+          const db = this.firestore.firestore;
+          const dates = items.flatMap(item => [transactionOf(item).date, ...datesOf(item)]);
+          return from(chunks).pipe(
+            concatMap(chunk => from(db.runTransaction(async dbTransaction => {
+              const storedDocs = await Promise.all(chunk.map(item =>
+                dbTransaction.get(db.collection('transactions').doc(`${user.uid}_${transactionOf(item).documentNumber}`))));
+              const missing = storedDocs.find(storedDoc => !storedDoc.exists);
+              if (missing) {
+                throw new Error(`Transaction ${missing.id} does not exist`);
+              }
+              await this.periodLockService.assertUnlocked(dbTransaction, user.uid,
+                [...dates, ...storedDocs.map(storedDoc => storedDoc.data()?.['date'])]);
+
+              chunk.forEach((item, i) => write(dbTransaction, user, item, storedDocs[i]));
+            })).pipe(map(() => chunk))),
+            catchError(error => {
+              console.error('Error committing batch:', error);
+              return throwError(() => new Error('Failed to write transactions in Firestore'));
+            })
+          );
+        } else {
+          return throwError(() => new Error('No user logged in'));
+        }
+      })
+    );
+  }
 }
@@ -1,17 +1,29 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { MatDialog } from '@angular/material/dialog';
+import { ActivatedRoute, Router } from '@angular/router';
 import { TransactionServiceComponent } from '../transaction-service/transaction-service.component';
 import { TransactionEntry } from '../transaction-entry.model';
 import { TransactionDialogComponent } from '../transaction-dialog/transaction-dialog.component';
-import { Subscription } from 'rxjs';
+import { Observable, Subscription } from 'rxjs';
 import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
 import { TranslateService } from '@ngx-translate/core';
+import { saveAs } from 'file-saver';
 import { StandingDialogComponent } from '../standing-dialog/standing-dialog.component';
+import { ImportDialogComponent } from '../import-dialog/import-dialog.component';
+import { AttachmentViewerComponent } from '../attachment-viewer/attachment-viewer.component';
+import { TransactionFilter } from '../transaction-filter.model';
+import { TransactionFilterService } from '../services/transaction-filter.service';
+import { CategoriesService } from '../services/categories.service';
+import { PeriodLockService } from '../services/period-lock.service';
+import { VatService } from '../services/vat.service';
 
 /**
  * TransactionsComponent manages the display and handling of transactions.
  * It allows users to view, add, edit, and delete transactions, 
- * as well as filter them by year and month.
+ * as well as filter them by year, month and the criteria of the filter panel.
+ * The criteria of the filter panel are kept in the URL so that they can be bookmarked.
+ * Selected transactions can be re-categorized, flipped, deleted or exported at once.
+ * Transactions in locked periods cannot be edited or deleted.
  */
 @Component({
   selector: 'app-transactions',
@@ -21,13 +33,20 @@ import { StandingDialogComponent } from '../standing-dialog/standing-dialog.comp
 export class TransactionsComponent implements OnInit, OnDestroy {
   transactionsList: TransactionEntry[] = []; // List of all transactions
   groupedTransactions: { [key: string]: TransactionEntry[] } = {}; // Grouped transactions by month and year
-  filteredTransactions: TransactionEntry[] = []; // Transactions filtered by the selected year
+  filteredTransactions: TransactionEntry[] = []; // Transactions filtered by the selected year and the filter panel
   totalIncome: number = 0; // Total income from filtered transactions
   totalExpenses: number = 0; // Total expenses from filtered transactions
   selectedYear: number = new Date().getFullYear(); // Currently selected year
   selectedMonth: number = new Date().getMonth() + 1; // Currently selected month
   selectedMonthText: string = ''; // Text representation of the selected month
   filterType: string = '--'; // Current filter type (e.g., Year)
+  filter: TransactionFilter; // Criteria of the filter panel
+  filterVisible: boolean = false; // Boolean to toggle the filter panel
+  selectedDocumentNumbers = new Set<string>(); // Document numbers of the selected transactions
+  batchCategory: string = ''; // Category assigned to the selected transactions
+  batchRunning: boolean = false; // True while a batch action is written
+  categories: any[] = []; // List of categories for the batch category select
+  lockedPeriods: string[] = []; // Closed months ("YYYY-MM") whose transactions cannot be changed
   private subscription: Subscription = new Subscription(); // Subscription to handle multiple observables
   documentIcons: { [key: string]: SafeResourceUrl } = {}; // Icons for different document types
 
@@ -39,24 +58,91 @@ export class TransactionsComponent implements OnInit, OnDestroy {
     private dialog: MatDialog, // MatDialog for opening dialog components
     private transactionService: TransactionServiceComponent, // Service for transaction operations
     private sanitizer: DomSanitizer, // Sanitizer for safe resource URLs
-    private translate: TranslateService // Translate service for internationalization
-  ) { }
+    private translate: TranslateService, // Translate service for internationalization
+    private router: Router, // Router for storing the filter in the URL
+    private route: ActivatedRoute, // Current route holding the filter query parameters
+    private filterService: TransactionFilterService, // Service for filter operations
+    private categoriesService: CategoriesService, // Service for category operations
+    private periodLockService: PeriodLockService, // Service for closed periods
+    private vatService: VatService // Service for VAT calculations
+  ) {
+    this.filter = this.filterService.createEmptyFilter();
+  }
 
   ngOnInit(): void {
+    const filterSub = this.route.queryParamMap.subscribe(params => {
+      this.filter = this.filterService.fromQueryParams(params); // Restore the filter from the URL
+      this.filterVisible = this.filterVisible || this.filterService.isActive(this.filter);
+      this.applyFilters();
+    });
+    this.subscription.add(filterSub);
+
     this.loadTransactions(); // Load all transactions on component initialization
     this.loadIcons(); // Load document icons for display
     this.loadMonths(); // Load month names for filtering
+
+    const categoriesSub = this.categoriesService.getCategories().subscribe((categories: any[]) => {
+      this.categories = categories; // Assign loaded categories to the component's categories property
+    });
+    this.subscription.add(categoriesSub);
+
+    const locksSub = this.periodLockService.getLockedPeriods().subscribe(lockedPeriods => {
+      this.lockedPeriods = lockedPeriods;
+    });
+    this.subscription.add(locksSub);
+  }
+
+  /**
+   * Returns whether a transaction lies in a locked period and therefore cannot be changed.
+   * @param transaction - The transaction to check
+   */
+  isLocked(transaction: TransactionEntry): boolean {
+    return this.periodLockService.isLocked(this.lockedPeriods, transaction.date);
+  }
+
+  /**
+   * Returns whether one of the selected transactions lies in a locked period.
+   */
+  get selectionLocked(): boolean {
+    return this.selectedTransactions.some(transaction => this.isLocked(transaction));
+  }
+
+  /**
+   * Shows or hides the filter panel.
+   */
+  toggleFilter(): void {
+    this.filterVisible = !this.filterVisible;
+  }
+
+  /**
+   * Stores the changed filter in the URL, which applies it to the list.
+   * @param filter - The filter emitted by the filter panel
+   */
+  onFilterChange(filter: TransactionFilter): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: this.filterService.toQueryParams(filter),
+      queryParamsHandling: 'merge',
+      replaceUrl: true
+    });
+  }
+
+  /**
+   * Returns whether the filter panel restricts the list.
+   */
+  get filterActive(): boolean {
+    return this.filterService.isActive(this.filter);
   }
 
   /**
    * Opens the dialog for adding a standing order.
    */
-  openStandingOrderDialog(transaction?: TransactionEntry): void {
+  openStandingOrderDialog(): void {
     this.menuVisible = false;
     console.log('openStandingOrderDialog called');
     const dialogRef = this.dialog.open(StandingDialogComponent, {
       width: '500px',
-      data: transaction || {} // Pass the transaction data to the dialog, if available
+      data: {} // New standing order; existing ones are edited in the standing order overview
     });
 
     const dialogSub = dialogRef.afterClosed().subscribe(result => {
@@ -68,6 +154,24 @@ export class TransactionsComponent implements OnInit, OnDestroy {
     this.subscription.add(dialogSub);
   }
 
+  /**
+   * Opens the dialog for importing a bank statement.
+   */
+  openImportDialog(): void {
+    this.menuVisible = false;
+    const dialogRef = this.dialog.open(ImportDialogComponent, {
+      width: '700px'
+    });
+
+    const dialogSub = dialogRef.afterClosed().subscribe(result => {
+      if (result) {
+        this.loadTransactions(); // Reload transactions after a successful import
+      }
+    });
+
+    this.subscription.add(dialogSub);
+  }
+
   toggleMenu() {
     this.menuVisible = !this.menuVisible;
   }
@@ -83,8 +187,8 @@ export class TransactionsComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Returns the icon type based on the document name.
-   * @param documentName - The name of the document
+   * Returns the icon type based on the MIME type of the first attachment or the legacy document name.
+   * @param documentName - The MIME type or name of the document
    * @returns SafeResourceUrl - The URL of the corresponding icon
    */
   getIconType(documentName: string): SafeResourceUrl {
@@ -104,6 +208,17 @@ export class TransactionsComponent implements OnInit, OnDestroy {
     this.subscription.unsubscribe();
   }
 
+  /**
+   * Opens the viewer for the attachments of a transaction. Replaced attachments are saved right away.
+   * @param transaction - The transaction whose attachments are shown
+   */
+  openAttachments(transaction: TransactionEntry): void {
+    this.dialog.open(AttachmentViewerComponent, {
+      width: '800px',
+      data: { transaction: { ...transaction }, persist: true }
+    });
+  }
+
   /**
    * Opens the transaction dialog for editing a transaction.
    * @param transaction - The transaction to edit
@@ -119,9 +234,7 @@ export class TransactionsComponent implements OnInit, OnDestroy {
     const transactionSub = this.transactionService.getTransactions().subscribe(
       (transactions: TransactionEntry[]) => {
         this.transactionsList = transactions; // Assign loaded transactions to the component's list
-        this.filterTransactions(); // Filter transactions based on the selected year
-        this.calculateTotals(); // Calculate total income and expenses
-        this.groupTransactionsByMonth(); // Group transactions by month
+        this.applyFilters(); // Filter, sum up and group the transactions
       },
       error => {
         console.error('Error fetching transactions:', error); // Log any errors that occur during fetching
@@ -133,10 +246,19 @@ export class TransactionsComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Groups transactions by month and year.
+   * Filters the transactions and updates the totals and the month groups.
+   */
+  applyFilters(): void {
+    this.filterTransactions(); // Filter transactions based on the selected year and the filter panel
+    this.calculateTotals(); // Calculate total income and expenses
+    this.groupTransactionsByMonth(); // Group transactions by month
+  }
+
+  /**
+   * Groups the filtered transactions by month and year.
    */
   groupTransactionsByMonth(): void {
-    this.groupedTransactions = this.transactionsList.reduce((groups, transaction) => {
+    this.groupedTransactions = this.filteredTransactions.reduce((groups, transaction) => {
       const date = new Date(transaction.date); // Parse the transaction date
       const monthYear = this.getMonthName(date.getMonth() + 1) + ' ' + date.getFullYear(); // Get month and year
 
@@ -233,12 +355,13 @@ export class TransactionsComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Filters transactions based on the selected year and updates the filtered transactions.
+   * Filters transactions based on the selected year and the filter panel and updates the filtered transactions.
    */
   filterTransactions(): void {
-    this.filteredTransactions = this.filterType === 'Year'
+    const transactions = this.filterType === 'Year'
       ? this.transactionsList.filter(transaction => this.getYear(transaction.date) === this.selectedYear) // Filter by year
       : this.transactionsList; // If no filter, return all transactions
+    this.filteredTransactions = this.filterService.apply(transactions, this.filter); // Apply the filter panel criteria
 
     this.selectedMonthText = this.getMonthName(this.selectedMonth); // Update the text for the selected month
   }
@@ -272,7 +395,7 @@ export class TransactionsComponent implements OnInit, OnDestroy {
   filterByYear(year: number) {
     this.selectedYear = year; // Set the selected year
     this.filterType = 'Year'; // Set the filter type
-    this.filterTransactions(); // Apply the filter
+    this.applyFilters(); // Apply the filter
   }
 
   /**
@@ -289,6 +412,163 @@ export class TransactionsComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Returns the selected transactions that are visible with the current filter.
+   */
+  get selectedTransactions(): TransactionEntry[] {
+    return this.filteredTransactions.filter(transaction => this.selectedDocumentNumbers.has(transaction.documentNumber));
+  }
+
+  /**
+   * Returns whether a transaction is selected.
+   * @param transaction - The transaction to check
+   */
+  isSelected(transaction: TransactionEntry): boolean {
+    return this.selectedDocumentNumbers.has(transaction.documentNumber);
+  }
+
+  /**
+   * Selects or deselects a transaction.
+   * @param transaction - The transaction to toggle
+   */
+  toggleSelection(transaction: TransactionEntry): void {
+    if (this.selectedDocumentNumbers.has(transaction.documentNumber)) {
+      this.selectedDocumentNumbers.delete(transaction.documentNumber);
+    } else {
+      this.selectedDocumentNumbers.add(transaction.documentNumber);
+    }
+  }
+
+  /**
+   * Returns whether all transactions of a month are selected.
+   * @param monthYear - The month-year key of the group
+   */
+  isGroupSelected(monthYear: string): boolean {
+    return this.groupedTransactions[monthYear].every(transaction => this.isSelected(transaction));
+  }
+
+  /**
+   * Selects all transactions of a month, or deselects them if all are selected.
+   * @param monthYear - The month-year key of the group
+   */
+  toggleGroup(monthYear: string): void {
+    const select = !this.isGroupSelected(monthYear);
+    this.groupedTransactions[monthYear].forEach(transaction => {
+      if (select) {
+        this.selectedDocumentNumbers.add(transaction.documentNumber);
+      } else {
+        this.selectedDocumentNumbers.delete(transaction.documentNumber);
+      }
+    });
+  }
+
+  /**
+   * Deselects all transactions.
+   */
+  clearSelection(): void {
+    this.selectedDocumentNumbers.clear();
+    this.batchCategory = '';
+  }
+
+  /**
+   * Assigns the chosen category to all selected transactions.
+   */
+  changeCategoryOfSelection(): void {
+    if (!this.batchCategory) {
+      return;
+    }
+
+    const updates = this.selectedTransactions.map(transaction => ({
+      transaction,
+      changes: { category: this.batchCategory }
+    }));
+    this.runBatch(this.transactionService.updateTransactionsBatch(updates));
+  }
+
+  /**
+   * Turns the selected incomes into expenses and vice versa.
+   * Net and VAT amount are recalculated like in the transaction dialog.
+   */
+  flipTypeOfSelection(): void {
+    const updates = this.selectedTransactions.map(transaction => {
+      const flipped = { ...transaction, incomeExpenses: transaction.incomeExpenses === 'income' ? 'expense' : 'income' } as TransactionEntry;
+      this.vatService.calculateFromGross(flipped);
+      return {
+        transaction,
+        changes: {
+          incomeExpenses: flipped.incomeExpenses,
+          net: flipped.net,
+          vatRate: flipped.vatRate,
+          vatAmount: flipped.vatAmount
+        }
+      };
+    });
+    this.runBatch(this.transactionService.updateTransactionsBatch(updates));
+  }
+
+  /**
+   * Deletes all selected transactions after user confirmation.
+   */
+  deleteSelection(): void {
+    const transactions = this.selectedTransactions;
+    if (transactions.length && confirm(this.translate.instant('CONFIRM_DELETE_SELECTION', { count: transactions.length }))) {
+      this.runBatch(this.transactionService.deleteTransactionsBatch(transactions));
+    }
+  }
+
+  /**
+   * Exports the selected transactions as CSV file (semicolon separated, decimal comma).
+   */
+  exportSelection(): void {
+    const header = ['NUMBER', 'DATE', 'AMOUNT', 'NET_AMOUNT', 'DESCRIPTION', 'CATEGORY', 'TYPE']
+      .map(key => this.translate.instant(key));
+    const quote = (value: string) => `"${(value || '').replace(/"/g, '""')}"`;
+    const amount = (value: number) => (value || 0).toFixed(2).replace('.', ',');
+
+    const rows = this.selectedTransactions.map(transaction => [
+      transaction.documentNumber,
+      new Date(transaction.date).toLocaleDateString('de-AT', { day: '2-digit', month: '2-digit', year: 'numeric' }),
+      amount(transaction.gross),
+      amount(transaction.net),
+      quote(transaction.description),
+      quote(transaction.category),
+      this.translate.instant(transaction.incomeExpenses === 'income' ? 'INCOME' : 'EXPENSE')
+    ].join(';'));
+
+    const csv = [header.join(';'), ...rows].join('\r\n');
+    // The byte order mark makes Excel read the file as UTF-8
+    saveAs(new Blob(['\ufeff' + csv], { type: 'text/csv;charset=utf-8' }), `transactions_${new Date().toISOString().slice(0, 10)}.csv`);
+  }
+
+  /**
+   * Runs a batch write and refreshes the list and the totals once it is done.
+   * Written transactions are deselected batch by batch, so that after a failure
+   * only the transactions that were not written remain selected.
+   * @param batch - The batch write to run
+   */
+  private runBatch(batch: Observable<TransactionEntry[]>): void {
+    const total = this.selectedTransactions.length;
+    let written = 0;
+    this.batchRunning = true;
+    batch.subscribe({
+      next: (transactions) => {
+        written += transactions.length;
+        transactions.forEach(transaction => this.selectedDocumentNumbers.delete(transaction.documentNumber));
+      },
+      error: (err) => {
+        console.error('Error running batch action:', err); // Log any error during the batch write
+        this.batchRunning = false;
+        this.loadTransactions(); // Show the transactions that were written
+        alert(this.translate.instant('BATCH_PARTIALLY_WRITTEN', { count: written, total }));
+      },
+      complete: () => {
+        this.batchRunning = false;
+        this.clearSelection();
+        this.loadTransactions(); // Reload transactions and totals once after the batch
+      }
+    });
+  }
+
   /**
    * Opens the transaction dialog for adding or editing a transaction.
    * @param transaction - The transaction to edit (optional)
@@ -0,0 +1,31 @@
+/**
+ * Represents a record in the recycle bin ("Papierkorb"):
+ * a transaction, budget entry or category that was deleted
+ * but can still be restored until it is purged.
+ */
+export interface TrashItem {
+  /**
+   * ID of the Firestore document of the record.
+   */
+  id: string;
+
+  /**
+   * Kind of the record, which decides the collection it belongs to.
+   */
+  type: 'transaction' | 'budget' | 'category';
+
+  /**
+   * Text shown for the record (description, title or name).
+   */
+  label: string;
+
+  /**
+   * Optional: Amount of the record (gross amount or budget amount).
+   */
+  amount?: number;
+
+  /**
+   * When the record was moved to the recycle bin, in milliseconds since epoch.
+   */
+  deletedAtInMillis: number;
+}
@@ -0,0 +1,119 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { TranslateService } from '@ngx-translate/core';
+import { TrashItem } from '../trash-item.model';
+import { TrashService, DEFAULT_TRASH_RETENTION_DAYS } from '../services/trash.service';
+import { SettingsService } from '../services/settings.service';
+
+/**
+ * TrashComponent shows the recycle bin ("Papierkorb") with the deleted
+ * transactions, budgets and categories. Records can be restored, budgets and
+ * categories also purged, and the retention period after which they are purged
+ * automatically can be set.
+ */
+@Component({
+  selector: 'app-trash',
+  templateUrl: './trash.component.html',
+  styleUrls: ['./trash.component.css']
+})
+export class TrashComponent implements OnInit, OnDestroy {
+
+  items: TrashItem[] = []; // Records in the recycle bin
+  retentionDays: number = DEFAULT_TRASH_RETENTION_DAYS; // Days until trashed records are purged
+  private subscription: Subscription = new Subscription(); // Subscription to handle multiple observables
+
+  constructor(
+    private trashService: TrashService, // Service for the recycle bin
+    private settingsService: SettingsService, // Service for the retention setting
+    private translate: TranslateService // Translate service for internationalization
+  ) { }
+
+  ngOnInit(): void {
+    this.subscription.add(this.trashService.getTrash().subscribe(items => {
+      this.items = items;
+    }));
+    this.subscription.add(this.settingsService.getSettings().subscribe((settings: any) => {
+      this.retentionDays = settings?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+    }));
+  }
+
+  ngOnDestroy(): void {
+    // Unsubscribe from all subscriptions to avoid memory leaks
+    this.subscription.unsubscribe();
+  }
+
+  /**
+   * Returns the date on which a trashed record is purged automatically.
+   * Transactions are never purged automatically.
+   * @param item - The trashed record
+   */
+  getPurgeDate(item: TrashItem): Date | null {
+    if (item.type === 'transaction') {
+      return null;
+    }
+    return new Date(item.deletedAtInMillis + this.retentionDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Moves a record back to its list.
+   * @param item - The record to restore
+   */
+  restore(item: TrashItem): void {
+    this.trashService.restore(item).subscribe({
+      error: (err) => console.error('Error restoring record:', err)
+    });
+  }
+
+  /**
+   * Deletes a record for good after user confirmation.
+   * @param item - The record to purge
+   */
+  purge(item: TrashItem): void {
+    if (confirm(this.translate.instant('CONFIRM_PURGE', { name: item.label }))) {
+      this.trashService.purge(item).subscribe({
+        error: (err) => console.error('Error purging record:', err)
+      });
+    }
+  }
+
+  /**
+   * Returns whether a record may be deleted for good. Transactions are kept.
+   * @param item - The trashed record
+   */
+  canPurge(item: TrashItem): boolean {
+    return this.trashService.canPurge(item);
+  }
+
+  /**
+   * Returns the records that can be deleted for good.
+   */
+  get purgeableItems(): TrashItem[] {
+    return this.items.filter(item => this.canPurge(item));
+  }
+
+  /**
+   * Deletes all budgets and categories in the recycle bin for good after user confirmation.
+   */
+  purgeAll(): void {
+    const items = this.purgeableItems;
+    if (items.length && confirm(this.translate.instant('CONFIRM_EMPTY_TRASH'))) {
+      items.forEach(item => this.trashService.purge(item).subscribe({
+        error: (err) => console.error('Error purging record:', err)
+      }));
+    }
+  }
+
+  /**
+   * Saves the retention period and purges the records that are now expired.
+   */
+  saveRetentionDays(): void {
+    if (!(this.retentionDays >= 1)) {
+      this.retentionDays = DEFAULT_TRASH_RETENTION_DAYS;
+    }
+
+    this.settingsService.saveSettings({ trashRetentionDays: this.retentionDays }).subscribe({
+      next: () => this.trashService.purgeExpired().subscribe(),
+      error: (err) => console.error('Error saving retention period:', err)
+    });
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Represents an Austrian VAT return (Umsatzsteuervoranmeldung, form U30)
+ * for a month or a quarter.
+ */
+export interface VatReturn {
+  /**
+   * First month of the period in the format "YYYY-MM".
+   */
+  periodFrom: string;
+
+  /**
+   * Last month of the period in the format "YYYY-MM".
+   */
+  periodTo: string;
+
+  /**
+   * Amounts of the U30 Kennzahlen, keyed by their number (e.g. "022" for revenue at 20%).
+   * Only Kennzahlen with an amount are included.
+   */
+  kennzahlen: { [kennzahl: string]: number };
+
+  /**
+   * Output tax owed for the period (revenue, intra-EU acquisitions and reverse charge).
+   */
+  outputTax: number;
+
+  /**
+   * Deductible input tax of the period.
+   */
+  inputTax: number;
+
+  /**
+   * Amount payable (positive, Zahllast) or refundable (negative, Gutschrift), Kennzahl 095.
+   */
+  payable: number;
+}
@@ -31,7 +31,9 @@ export const environment = {
     appId: "1:1020819590485:web:86c9e735007d1f178973dc",
     measurementId: "G-F655KXNQT3"
   },
-  encryptionKey: 'eazybooks5202'
+  encryptionKey: 'eazybooks5202',
+  // Set to { host: 'localhost', port: 9199 } to store receipts in the Firebase emulator ("firebase emulators:start")
+  storageEmulator: null as { host: string, port: number } | null
 };
 
 